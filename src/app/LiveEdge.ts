@@ -0,0 +1,165 @@
+import type { ITransitionOptions, PanZoomController } from './PanZoomController';
+import { toNumber, toNumericDomain } from './panZoom-utils';
+import type { IConstraint } from './types';
+
+const DEFAULT_TOLERANCE = 2;
+
+
+/** The options of `LiveEdge`. */
+export interface ILiveEdgeOptions {
+  /**
+   * How close (in pixels) the end of the view must be to the live edge to follow it. Defaults to 2px.
+   * Views that end past the edge follow it too.
+   */
+  tolerance?: number;
+}
+
+
+/**
+ * `LiveEdge` — keeps the end of the x domain of a `PanZoomController` at the newest data ("live edge"), for streaming charts.
+ *
+ * Call `setEdge` with the x value of the newest data as it arrives: while following, the view scrolls to keep ending there,
+ * at the same span. Panning or zooming away from the edge stops following, and bringing the view back to the edge
+ * (or calling `follow`) resumes it. The view is never moved during a gesture, wheel burst, transition or glide:
+ * it catches up when the view comes to rest.
+ *
+ * The constraint isn't changed: if it has an `xMax`, grow it with the data (see `growConstraint`) before calling `setEdge`.
+ * A view that the constraint (or the span limits) keep from reaching the edge stops following.
+ */
+export class LiveEdge {
+  private readonly controller: PanZoomController<number | Date>;
+  private readonly tolerance: number;
+  private readonly listeners = new Set<() => void>();
+  private readonly cleanups: (() => void)[] = [];
+  private following = true;
+  /** The newest edge, in milliseconds for time scales. */
+  private edge: number | undefined = undefined;
+  /** The edge the view was last scrolled to while following, so that data arriving during a gesture doesn't stop following. */
+  private shownEdge: number | undefined = undefined;
+
+  constructor (
+    controller: PanZoomController<number | Date>,
+    {
+      tolerance = DEFAULT_TOLERANCE,
+    }: ILiveEdgeOptions = {},
+  ) {
+    this.controller = controller;
+    this.tolerance = tolerance;
+    // Changes at rest come from methods such as `setDomain`, the others are checked once the view settles.
+    this.cleanups.push(controller.onDomainChange(() => {
+      if (controller.isAtRest) {
+        this.update();
+      }
+    }));
+    this.cleanups.push(controller.onSettle(() => {
+      this.update();
+      this.catchUp();
+    }));
+  }
+
+  /** Whether the view follows the live edge. */
+  get isFollowing (): boolean {
+    return this.following;
+  }
+
+  /**
+   * Set the live edge: the x value (a number, or a Date for time scales) of the newest data.
+   * While following, the view scrolls to end there, now or once it comes to rest.
+   */
+  setEdge (edge: number | Date): void {
+    this.edge = toNumber(edge);
+    this.catchUp();
+  }
+
+  /**
+   * Resume following the live edge (e.g. from a "live" button), with a transition to it.
+   */
+  follow (opts?: ITransitionOptions): void {
+    this.setFollowing(true);
+    const domain = this.calcEdgeDomain();
+    if (!domain) return;
+    this.shownEdge = this.edge;
+    void this.controller.transitionTo(domain, opts);
+  }
+
+  /**
+   * Add a listener that is called when `isFollowing` changes.
+   * Returns a function that removes the listener.
+   */
+  subscribe (listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop following, and drop all subscribers.
+   */
+  destroy (): void {
+    for (const cleanup of this.cleanups.splice(0)) {
+      cleanup();
+    }
+    this.listeners.clear();
+  }
+
+  /**
+   * Scroll the view to the live edge, if following and at rest.
+   */
+  private catchUp (): void {
+    if (!this.following || !this.controller.isAtRest) return;
+    const domain = this.calcEdgeDomain();
+    if (!domain) return;
+    this.shownEdge = this.edge;
+    // Scrolling with the data isn't a view of the user: it doesn't settle (e.g. into the view history).
+    this.controller.setDomain(domain, {settle: false});
+    // The view doesn't change if it is already held back by the constraint, so it is checked here too.
+    this.update();
+  }
+
+  /**
+   * The domain that ends at the live edge, at the current span.
+   */
+  private calcEdgeDomain (): [[number, number], [number, number]] | undefined {
+    if (this.edge === undefined) return undefined;
+    const [[x0, x1], yDomain] = toNumericDomain(this.controller.getDomain());
+    const delta = this.edge - Math.max(x0, x1);
+    return [[x0 + delta, x1 + delta], [yDomain[0], yDomain[1]]];
+  }
+
+  /**
+   * Follow the live edge if the view ends at (or past) it, or at the edge it was last scrolled to.
+   */
+  private update (): void {
+    if (this.edge === undefined) return;
+    const [[x0, x1]] = toNumericDomain(this.controller.getDomain());
+    const [range0, range1] = this.controller.getScales().xScale.range();
+    // The tolerance in domain units.
+    const tolerance = this.tolerance * Math.abs(x1 - x0) / Math.abs(range1 - range0);
+    const edge = Math.min(this.edge, this.shownEdge ?? this.edge);
+    this.setFollowing(Math.max(x0, x1) >= edge - tolerance);
+  }
+
+  private setFollowing (following: boolean): void {
+    if (!following) {
+      this.shownEdge = undefined;
+    }
+    if (following === this.following) return;
+    this.following = following;
+    for (const listener of [...this.listeners]) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Extend the `xMax` of `constraint` (if any) to the live edge, so that the view can follow the data as it arrives.
+ */
+export function growConstraint <TX extends number | Date, TY extends number | Date> (
+  constraint: IConstraint<TX, TY>,
+  edge: TX | undefined,
+): IConstraint<TX, TY> {
+  const {xMax} = constraint;
+  if (edge === undefined || xMax === undefined || toNumber(xMax) >= toNumber(edge)) return constraint;
+  return {...constraint, xMax: edge};
+}
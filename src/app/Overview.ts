@@ -0,0 +1,242 @@
+import type { PanZoomController } from './PanZoomController';
+import { setScaleDomain, toNumber, toNumericDomain } from './panZoom-utils';
+import type { IDomain, IRange, IScale } from './types';
+
+const DEFAULT_HANDLE_SIZE = 6;
+
+
+/** The options of `Overview`. */
+export interface IOverviewOptions {
+  /**
+   * The scales of the overview chart: their ranges are the overview's pixels,
+   * and their domains are set to the extent of the constraint of the main view (see `fit`).
+   */
+  xScale: IScale;
+  yScale: IScale;
+  /** The axes of the main view that the overview shows and moves. Defaults to `'x'`, like a d3 "focus + context" brush. */
+  axis?: 'x' | 'y' | 'xy';
+  /** How close (in pixels) the pointer must be to an edge of the viewport to drag it. Defaults to 6px. */
+  handleSize?: number;
+}
+
+/**
+ * What a pointer is over in the overview (see `Overview.hitTest`):
+ * the viewport (which moves the main view), one of its edges (which zoom it), or the outside (which jumps there).
+ */
+export type IOverviewTarget = 'inside' | 'left' | 'right' | 'top' | 'bottom' | 'outside';
+
+
+/**
+ * `Overview` — a headless overview (minimap) of a `PanZoomController`, for "focus + context" layouts.
+ *
+ * The overview shows the whole extent of the constraint of the main view, with a viewport rectangle (see `getViewport`)
+ * that marks its current domain. Dragging the viewport pans the main view, dragging its edges zooms it,
+ * and pressing outside of it centers the main view there (and keeps dragging).
+ * All changes go through `setDomain`, so they obey the constraint and span limits of the main view.
+ */
+export class Overview {
+  private readonly controller: PanZoomController<number | Date>;
+  private readonly xScale: IScale;
+  private readonly yScale: IScale;
+  private readonly axis: 'x' | 'y' | 'xy';
+  private readonly handleSize: number;
+  private drag: {
+    pointerId: number;
+    target: Exclude<IOverviewTarget, 'outside'>;
+    start: {x: number; y: number};
+    startDomain: IDomain;
+  } | undefined = undefined;
+
+  constructor (
+    controller: PanZoomController<number | Date>,
+    {
+      xScale,
+      yScale,
+      axis = 'x',
+      handleSize = DEFAULT_HANDLE_SIZE,
+    }: IOverviewOptions,
+  ) {
+    this.controller = controller;
+    this.xScale = xScale;
+    this.yScale = yScale;
+    this.axis = axis;
+    this.handleSize = handleSize;
+    this.fit();
+  }
+
+  /**
+   * Set the domains of the overview scales to the extent of the constraint of the main view.
+   * Unbounded sides of the constraint keep the current domains. Call this when the constraint changes.
+   */
+  fit (): void {
+    const {constraint} = this.controller.gesture;
+    if (!constraint) return;
+    fitScale(this.xScale, constraint.xMin, constraint.xMax);
+    fitScale(this.yScale, constraint.yMin, constraint.yMax);
+  }
+
+  /**
+   * The viewport: the current domain of the main view, as a rectangle in overview (pixel) coordinates,
+   * `[[xMin, xMax], [yMin, yMax]]`. It spans the whole overview on the axes that the overview doesn't show.
+   */
+  getViewport (): IRange {
+    const [xDomain, yDomain] = toNumericDomain(this.controller.getDomain());
+    const toRange = (scale: IScale, domain: readonly [number, number], shown: boolean): [number, number] => {
+      const [range0, range1] = shown ? domain.map(scale) : scale.range();
+      return [Math.min(range0, range1), Math.max(range0, range1)];
+    };
+    return [
+      toRange(this.xScale, xDomain, this.axis !== 'y'),
+      toRange(this.yScale, yDomain, this.axis !== 'x'),
+    ];
+  }
+
+  /**
+   * What the given overview position is over, e.g. to show a `move` or `ew-resize` cursor.
+   */
+  hitTest (
+    pos: {x: number; y: number},
+  ): IOverviewTarget {
+    const [[xMin, xMax], [yMin, yMax]] = this.getViewport();
+    const handle = this.handleSize;
+    const withinX = pos.x >= xMin - handle && pos.x <= xMax + handle;
+    const withinY = pos.y >= yMin - handle && pos.y <= yMax + handle;
+    if (!withinX || !withinY) return 'outside';
+    const edges: [IOverviewTarget, number][] = [];
+    if (this.axis !== 'y') {
+      edges.push(['left', Math.abs(pos.x - xMin)], ['right', Math.abs(pos.x - xMax)]);
+    }
+    if (this.axis !== 'x') {
+      edges.push(['top', Math.abs(pos.y - yMin)], ['bottom', Math.abs(pos.y - yMax)]);
+    }
+    const nearest = edges.reduce<[IOverviewTarget, number] | undefined>(
+      (best, edge) => (edge[1] <= handle && (!best || edge[1] < best[1]) ? edge : best),
+      undefined,
+    );
+    if (nearest) return nearest[0];
+    return pos.x >= xMin && pos.x <= xMax && pos.y >= yMin && pos.y <= yMax ? 'inside' : 'outside';
+  }
+
+  /**
+   * Call `pointerDown` when a pointer is pressed on the overview, passing a position relative to the overview.
+   * Only one pointer drags at a time.
+   */
+  pointerDown (
+    pointerId: number,
+    pos: {x: number; y: number},
+  ): void {
+    if (this.drag) return;
+    const target = this.hitTest(pos);
+    if (target === 'outside') {
+      // Center the main view on the position, then drag it from there.
+      const [[xMin, xMax], [yMin, yMax]] = this.getViewport();
+      this.controller.setDomain(this.calcMovedDomain(
+        toNumericDomain(this.controller.getDomain()),
+        pos.x - ((xMin + xMax) / 2),
+        pos.y - ((yMin + yMax) / 2),
+      ));
+    }
+    this.drag = {
+      pointerId,
+      target: target === 'outside' ? 'inside' : target,
+      start: pos,
+      startDomain: toNumericDomain(this.controller.getDomain()),
+    };
+  }
+
+  /**
+   * Call `pointerMove` when a pointer moves, passing a position relative to the overview.
+   */
+  pointerMove (
+    pointerId: number,
+    pos: {x: number; y: number},
+  ): void {
+    const drag = this.drag;
+    if (drag?.pointerId !== pointerId) return;
+    const dx = pos.x - drag.start.x;
+    const dy = pos.y - drag.start.y;
+    const domain = drag.target === 'inside' ?
+      this.calcMovedDomain(drag.startDomain, dx, dy) :
+      this.calcResizedDomain(drag.startDomain, drag.target, drag.target === 'left' || drag.target === 'right' ? dx : dy);
+    if (domain) {
+      this.controller.setDomain(domain);
+    }
+  }
+
+  /**
+   * Call `pointerUp` when a pointer is released.
+   */
+  pointerUp (
+    pointerId: number,
+  ): void {
+    if (this.drag?.pointerId !== pointerId) return;
+    this.drag = undefined;
+  }
+
+  /**
+   * Abandon the drag in progress (if any).
+   */
+  destroy (): void {
+    this.drag = undefined;
+  }
+
+  /**
+   * The domain moved by `dx`/`dy` overview pixels, on the axes that the overview shows.
+   */
+  private calcMovedDomain (
+    domain: IDomain,
+    dx: number,
+    dy: number,
+  ): IDomain {
+    const move = (scale: IScale, [d0, d1]: readonly [number, number], delta: number): [number, number] => [
+      toNumber(scale.invert(scale(d0) + delta)),
+      toNumber(scale.invert(scale(d1) + delta)),
+    ];
+    const [xDomain, yDomain] = domain;
+    return [
+      this.axis === 'y' ? xDomain : move(this.xScale, xDomain, dx),
+      this.axis === 'x' ? yDomain : move(this.yScale, yDomain, dy),
+    ];
+  }
+
+  /**
+   * The domain with the given edge of the viewport moved by `delta` overview pixels,
+   * or `undefined` if it would cross the opposite edge.
+   */
+  private calcResizedDomain (
+    domain: IDomain,
+    edge: 'left' | 'right' | 'top' | 'bottom',
+    delta: number,
+  ): IDomain | undefined {
+    const isX = edge === 'left' || edge === 'right';
+    const scale = isX ? this.xScale : this.yScale;
+    const [d0, d1] = isX ? domain[0] : domain[1];
+    const [range0, range1] = [scale(d0), scale(d1)];
+    // The end of the domain that is at the dragged edge, which is the lower range position for the left/top edges.
+    const isLowerEdge = edge === 'left' || edge === 'top';
+    const index = (range0 <= range1) === isLowerEdge ? 0 : 1;
+    const moved = (index === 0 ? range0 : range1) + delta;
+    const fixed = index === 0 ? range1 : range0;
+    if (isLowerEdge ? moved >= fixed : moved <= fixed) return undefined;
+    const value = toNumber(scale.invert(moved));
+    const resized: [number, number] = index === 0 ? [value, d1] : [d0, value];
+    return isX ? [resized, domain[1]] : [domain[0], resized];
+  }
+}
+
+/**
+ * Set the domain of `scale` to `[min, max]`, keeping its orientation and the current ends where they are `undefined`.
+ */
+function fitScale (
+  scale: IScale,
+  min: number | Date | undefined,
+  max: number | Date | undefined,
+): void {
+  const [d0, d1] = scale.domain().map(toNumber);
+  const isDescending = d1 < d0;
+  const lower = min === undefined ? Math.min(d0, d1) : toNumber(min);
+  const upper = max === undefined ? Math.max(d0, d1) : toNumber(max);
+  const [next0, next1] = isDescending ? [upper, lower] : [lower, upper];
+  if (next0 === d0 && next1 === d1) return;
+  setScaleDomain(scale, [next0, next1]);
+}
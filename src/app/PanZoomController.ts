@@ -0,0 +1,1626 @@
+import {
+  applyDomain,
+  calcBbox,
+  calcConstraintEdges,
+  calcDistancesToConstraint,
+  calcPannedDomain,
+  calcSpanLimitState,
+  calcTransformedDomain,
+  calcZoomBox,
+  classifyWheel,
+  getDomain,
+  type IConstraintEdges,
+  isSameDomain,
+  type ISpanLimitState,
+  type IWheelInput,
+  normalizeWheelDelta,
+  normalizeWheelPan,
+  resolveZoomAnchor,
+  setScaleDomain,
+  toNumber,
+  toNumericDomain,
+  toScaleDomain,
+  updateScales,
+  zoom,
+  zoomFactorToRatio,
+} from './panZoom-utils';
+import {
+  decay,
+  decayRateToStopWithin,
+  estimateVelocity,
+  frictionToDecayRate,
+  type IMomentumOptions,
+  type IMoveSample,
+  VELOCITY_WINDOW,
+} from './momentum-utils';
+import {
+  easeCubicInOut,
+  easeCubicOut,
+  interpolateDomain,
+  prefersReducedMotion,
+  type IEasing,
+} from './transition-utils';
+import type { IBBox, IConstraint, IDomain, IGesture, IScale, ISpanLimits, IZoomAnchor, IZoomBox } from './types';
+
+const SINGLE_AXIS_THRESHOLD = 100;
+const DEFAULT_TRANSITION_DURATION = 250;
+const DEFAULT_WHEEL_IDLE_TIMEOUT = 150;
+
+
+/**
+ * The options accepted by `PanZoomController`. All of them can be changed later with `setOptions`.
+ *
+ * `TX` and `TY` are the types of the values of the domains of the scales: `Date` for time scales, `number` otherwise.
+ * Domains and constraints may also be given in milliseconds for time scales.
+ */
+export interface IPanZoomOptions <TX extends number | Date = number, TY extends number | Date = TX> {
+  /**
+   * The scales to manipulate.
+   * In controlled mode (see `domain`), they are copied, and the copies are manipulated instead.
+   */
+  xScale: IScale<TX>;
+  yScale: IScale<TY>;
+  /**
+   * Set this to use controlled mode: the view shows this domain, and the scales given in the options are left untouched.
+   * Interactions call `onChange` with the next domain, which only shows once it is passed back as `domain`,
+   * so the owner of the domain can accept, modify or reject each change.
+   */
+  domain?: IDomain<TX | number, TY | number>;
+  /**
+   * Called with the next domain whenever an interaction or a method changes the view (in controlled mode: proposes a change).
+   */
+  onChange? (nextDomain: IDomain<TX, TY>, meta: IChangeMeta): void;
+  constrain?: IConstraint<TX | number, TY | number>;
+  preserveAspectRatio?: boolean;
+  lockXAxis?: boolean;
+  lockYAxis?: boolean;
+  /**
+   * The smallest spans of the domains (the zoom-in limits).
+   * For time scales, the spans are durations in milliseconds.
+   * With `units: 'transformed'`, they are measured where the scale is linear, e.g. in decades for a log scale.
+   */
+  minZoom?: ISpanLimits;
+  /**
+   * The largest spans of the domains (the zoom-out limits).
+   * For time scales, the spans are durations in milliseconds.
+   * With `units: 'transformed'`, they are measured where the scale is linear, e.g. in decades for a log scale.
+   */
+  maxZoom?: ISpanLimits;
+  /**
+   * Where zooms are anchored on each axis, see `IZoomAnchor`. Defaults to `'cursor'`.
+   * This applies to wheel zooms, pinches, keyboard zooms, double taps and `zoomBy`, but not to box zooms and transitions.
+   */
+  anchor?: {x?: IZoomAnchor<TX>; y?: IZoomAnchor<TY>};
+  /**
+   * The domain that `reset` returns to.
+   * Defaults to the domain the scales had before the first interaction.
+   */
+  resetDomain?: IDomain<TX | number, TY | number>;
+  /**
+   * Snap the view when it comes to rest: this is called with the domain at rest, and returns the domain to show instead,
+   * which the view transitions to before settling (see `onSettle`).
+   * E.g. to show whole bands of a band scale (see `createBandIndexScale`).
+   */
+  snap? (domain: IDomain<TX, TY>): IDomain<TX | number, TY | number>;
+  /**
+   * Keep panning (and pinch zooming) after the pointers are released, decelerating with friction.
+   * The glide slows down in time to stop at the constraint edges.
+   */
+  momentum?: boolean | IMomentumOptions;
+  /**
+   * Let the view travel past the constraint and the span limits with increasing resistance,
+   * then spring back when the gesture (or wheel burst) ends.
+   */
+  elastic?: boolean | IElasticOptions;
+  /**
+   * Zoom in on double click / double tap, and out with Shift (see `pointerDown`) or on a two-finger tap.
+   * A pointer that moves further than `maxDistance` is a pan rather than a tap.
+   */
+  doubleTap?: boolean | IDoubleTapOptions;
+  /** The options of keyboard navigation, see `keyDown`. */
+  keyboard?: IKeyboardOptions;
+  /** How `wheel` interprets wheel events. */
+  wheel?: IWheelOptions;
+  /** The options of box zoom, which is started by passing `{boxZoom: true}` to `pointerDown`. */
+  boxZoom?: IBoxZoomOptions;
+  /**
+   * A burst of wheel events (or key presses) ends after this many milliseconds without another one. Defaults to 150ms.
+   * The view settles (see `onSettle`) at the end of each burst, rather than on every wheel event.
+   * Changes through methods such as `setDomain` settle after the same delay, e.g. at the end of a scrollbar drag.
+   */
+  wheelIdleTimeout?: number;
+  /**
+   * Implement this function to properly handle pointer move events.
+   * It should add a pointer move event listener, and return a function that removes it.
+   * This way, pointer move events are ignored unless the chart is actually being interacted with.
+   * This is important, because the pointer move listener must be attached on the entire document (for freedom of movement).
+   */
+  registerMoveListener?: (
+    /**
+     * Call `onPointerMove` for every move of every pointer, passing the pointer position relative to the view element.
+     */
+    onPointerMove: (
+      pointerId: number,
+      pos: {x: number; y: number},
+    ) => void,
+  ) => (() => void);
+  /**
+   * Schedules a callback for the next frame. Defaults to `requestAnimationFrame`,
+   * or to a 16ms timeout where there is no `requestAnimationFrame` (e.g. in Node).
+   */
+  requestFrame?: (callback: () => void) => unknown;
+  /** Cancels a callback scheduled with `requestFrame`. */
+  cancelFrame?: (handle: unknown) => void;
+  /** The clock used for transitions and momentum, in milliseconds. Defaults to `performance.now`. */
+  now?: () => number;
+  /**
+   * When set, transitions jump straight to their end.
+   * Defaults to the user's `prefers-reduced-motion` setting.
+   */
+  reducedMotion?: boolean;
+}
+
+/** The options of `transitionTo`. */
+export interface ITransitionOptions {
+  /**
+   * The duration in milliseconds.
+   * Defaults to 250ms, or with `smooth`, to a duration proportional to the length of the zoom path.
+   */
+  duration?: number;
+  /** Defaults to `easeCubicInOut`. */
+  easing?: IEasing;
+  /**
+   * Follow the van Wijk "smooth zoom" path (like `d3.interpolateZoom`),
+   * which zooms out and back in when travelling far, instead of panning and zooming linearly.
+   */
+  smooth?: boolean;
+}
+
+/** The options of the elastic (rubber-band) mode. */
+export interface IElasticOptions {
+  /** How easily the view travels past the limits. Defaults to `0.55`, like iOS scroll views. */
+  resistance?: number;
+  /** The duration of the spring back, in milliseconds. Defaults to 300ms. */
+  duration?: number;
+}
+
+/** The options of double-click / double-tap zoom. */
+export interface IDoubleTapOptions {
+  /** How much a double tap zooms in (or, with Shift or a two-finger tap, out). Defaults to 2. */
+  factor?: number;
+  /** The longest a tap can last, and the longest time between the two taps, in milliseconds. Defaults to 300ms. */
+  maxDelay?: number;
+  /** The farthest a pointer can move during a tap, and the farthest the two taps can be apart, in pixels. Defaults to 10px. */
+  maxDistance?: number;
+  /** The duration of the zoom animation, in milliseconds. Defaults to 250ms. */
+  duration?: number;
+}
+
+/** The options of `wheel`. */
+export interface IWheelOptions {
+  /**
+   * - `'zoom'` (the default): the mouse wheel zooms, trackpad swipes pan, and trackpad pinches zoom.
+   * - `'pan'` (scroll-to-pan, like Figma): the mouse wheel and trackpad swipes pan,
+   *   and only pinches or a wheel with Ctrl/Meta held zoom.
+   *
+   * In both modes, horizontal deltas pan, Shift turns vertical wheel deltas into horizontal pans, and Ctrl/Meta zooms.
+   */
+  mode?: 'zoom' | 'pan';
+  /** Multipliers per device: `wheel` and `pinch` apply to zooms, `trackpad` to pans. */
+  sensitivity?: {
+    /** Defaults to 1. */
+    wheel?: number;
+    /** Defaults to 10. */
+    pinch?: number;
+    /** Defaults to 1. */
+    trackpad?: number;
+  };
+}
+
+/** The options of keyboard navigation, see `keyDown`. */
+export interface IKeyboardOptions {
+  /** How far the arrow keys pan, in pixels. Defaults to 50px. */
+  panStep?: number;
+  /** How much the `+`/`-` and PageUp/PageDown keys zoom. Defaults to 1.25. */
+  zoomFactor?: number;
+  /** How many times bigger the steps are while Shift is held. Defaults to 4. */
+  shiftMultiplier?: number;
+}
+
+/** The options of box zoom ("drag a box to zoom into it"). */
+export interface IBoxZoomOptions {
+  /** Select a band of the x domain (`'x'`), a band of the y domain (`'y'`), or a box (`'xy'`, the default). */
+  axis?: 'x' | 'y' | 'xy';
+  /** Grow the box to the aspect ratio of the view. Defaults to the `preserveAspectRatio` option. */
+  preserveAspectRatio?: boolean;
+  /** A box smaller than this many pixels (in the selected axes) is ignored on release. Defaults to 5px. */
+  minSize?: number;
+}
+
+/** Describes a change of the view, see `onChange`. */
+export interface IChangeMeta {
+  /**
+   * What changed the view:
+   *   - `'pan'` — a pointer gesture (or its momentum) that moved the view without changing its spans.
+   *   - `'zoom'` — a pointer gesture (or its momentum) that changed the spans, e.g. a pinch.
+   *   - `'wheel'` — a wheel event.
+   *   - `'keyboard'` — a key press, see `keyDown`.
+   *   - `'animation'` — a transition or an elastic spring back.
+   *   - `'api'` — a method such as `setDomain`, `panBy`, `zoomBy` or `reset`.
+   */
+  type: 'pan' | 'zoom' | 'wheel' | 'keyboard' | 'animation' | 'api';
+  /** Whether the x domain changed. */
+  x: boolean;
+  /** Whether the y domain changed. */
+  y: boolean;
+}
+
+/** What is changing the view, as passed to `mutate`: a `'gesture'` is reported as a pan or a zoom. */
+type IChangeSource = 'gesture' | Exclude<IChangeMeta['type'], 'pan' | 'zoom'>;
+
+/** The kind of input behind an event, see `IPanZoomEvent`. */
+export type IPanZoomInput = 'pointer' | 'wheel' | 'keyboard' | 'animation' | 'api';
+
+/** The payload of the events of `PanZoomController`, see `on`. */
+export interface IPanZoomEvent <TX extends number | Date = number, TY extends number | Date = TX> {
+  /** The domain after the change, or at the end of the gesture. */
+  domain: IDomain<TX, TY>;
+  /** The domain before the change, at the start of the gesture, or at the previous rest. */
+  previousDomain: IDomain<TX, TY>;
+  /** How many pointers are pressed on the view. */
+  pointerCount: number;
+  /**
+   * What caused the event: `'pointer'` for pointer gestures (including their momentum and box zooms),
+   * `'wheel'`, `'keyboard'`, `'animation'` for transitions and elastic spring backs, and `'api'` for methods such as `setDomain`.
+   */
+  input: IPanZoomInput;
+}
+
+/** The edges of the constraint, see the `constrained` event. */
+export type IConstraintEdge = 'xMin' | 'xMax' | 'yMin' | 'yMax';
+
+/**
+ * The events of `PanZoomController` and their payloads, see `on`.
+ */
+export interface IPanZoomEventMap <TX extends number | Date = number, TY extends number | Date = TX> {
+  /** The first pointer was pressed, or a burst of wheel events or key presses began. */
+  gesturestart: IPanZoomEvent<TX, TY>;
+  /**
+   * The last pointer was released (before any momentum), or a burst of wheel events or key presses ended.
+   * `previousDomain` is the domain at `gesturestart`.
+   */
+  gestureend: IPanZoomEvent<TX, TY>;
+  /** A change that moved the view without changing its spans, whatever the input. */
+  pan: IPanZoomEvent<TX, TY>;
+  /** A change of the spans of the view, whatever the input. */
+  zoom: IPanZoomEvent<TX, TY>;
+  /** A change from a wheel event, which is also a `pan` or a `zoom`. */
+  wheel: IPanZoomEvent<TX, TY>;
+  /** A change brought the view against edges of the constraint that it wasn't against before. */
+  constrained: IPanZoomEvent<TX, TY> & {edges: IConstraintEdge[]};
+  /** A change brought the span of an axis to its `minZoom` or `maxZoom` limit, which it wasn't at before. */
+  limitReached: IPanZoomEvent<TX, TY> & {limits: Partial<ISpanLimitState>};
+  /** The domains of the scales changed, see `onDomainChange`. */
+  change: IPanZoomEvent<TX, TY>;
+  /** The view came to rest, see `onSettle`. `previousDomain` is the domain at the previous rest. */
+  settle: IPanZoomEvent<TX, TY>;
+}
+
+/** A listener of numeric events, see `on`. */
+type IEventListener <K extends keyof IPanZoomEventMap> = (event: IPanZoomEventMap[K]) => void;
+
+/** Something that changes the view on every frame, e.g. a transition or a momentum glide. */
+interface IAnimation {
+  /** What the changes are reported as: a `'gesture'` is reported as a pan or a zoom. */
+  source: 'gesture' | 'animation';
+  /** Apply the frame at the given time. Returns `false` when the animation is over. */
+  step: (now: number) => boolean;
+  /** Called once, when the animation is over (`completed`) or interrupted. */
+  end: (completed: boolean) => void;
+}
+
+
+const defaultRequestFrame = (callback: () => void): unknown => (
+  typeof requestAnimationFrame === 'function' ?
+    requestAnimationFrame(callback) :
+    setTimeout(callback, 16)
+);
+
+const defaultNow = (): number => (
+  typeof performance === 'undefined' ?
+    Date.now() :
+    performance.now()
+);
+
+const defaultCancelFrame = (handle: unknown): void => {
+  if (typeof cancelAnimationFrame === 'function') {
+    cancelAnimationFrame(handle as number);
+  } else {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  }
+};
+
+
+/**
+ * `PanZoomController` — the framework-agnostic core of `usePanZoom`.
+ *
+ * It owns the gesture state and mutates the domains of the given scales in response to pointer and wheel input.
+ * Subscribers are notified at most once per frame after the scales have changed.
+ *
+ * `TX` and `TY` are the types of the values of the domains of the scales: `Date` for time scales, `number` otherwise.
+ * The domains it returns and reports have the same types, and it accepts Dates or milliseconds for time scales.
+ */
+export class PanZoomController <TX extends number | Date = number, TY extends number | Date = TX> {
+  /**
+   * This is the gesture state. Not usually needed.
+   */
+  readonly gesture: IGesture;
+
+  private options: IPanZoomOptions<TX, TY>;
+  /** The scales that are manipulated: the ones given in the options, or their copies in controlled mode. */
+  private scales: {xScale: IScale<TX>; yScale: IScale<TY>};
+  private readonly listeners = new Set<() => void>();
+  /** The event listeners by type, which receive numeric domains (see `on`). */
+  private readonly eventListeners: {[K in keyof IPanZoomEventMap]: Set<IEventListener<K>>} = {
+    gesturestart: new Set(),
+    gestureend: new Set(),
+    pan: new Set(),
+    zoom: new Set(),
+    wheel: new Set(),
+    constrained: new Set(),
+    limitReached: new Set(),
+    change: new Set(),
+    settle: new Set(),
+  };
+  /** The pointer gesture, or burst of wheel events or key presses, in progress (if any): its input, and the domain at its start. */
+  private interaction: {input: IPanZoomInput; domain: IDomain} | undefined = undefined;
+  /** The input of the last change, which the domain change and settle events report. */
+  private lastInput: IPanZoomInput = 'api';
+  private frameHandle: unknown = undefined;
+  private removeMoveListener: (() => void) | undefined = undefined;
+  private homeDomain: IDomain | undefined = undefined;
+  private settledDomain: IDomain | undefined = undefined;
+  /** The domain of the last snap, so that a view that can't reach it (e.g. because of the constraint) isn't snapped again. */
+  private snapTarget: IDomain | undefined = undefined;
+  private animation: IAnimation | undefined = undefined;
+  private moveSamples: IMoveSample[] = [];
+  /** The samples of the last pinch, which glides if its pointers are lifted one at a time. */
+  private pinchSamples: IMoveSample[] = [];
+  private idleTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+  /** The timer that settles the view after changes through methods such as `setDomain`, see `changeDomain`. */
+  private settleTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+  private hoverPosition: {x: number; y: number} | undefined = undefined;
+  /** The gesture in progress, while it may still be a tap: when it started, and where each pointer was pressed. */
+  private tapState: {time: number; positions: Map<number, {x: number; y: number}>; zoomOut: boolean} | undefined = undefined;
+  /** The previous tap, while it may still be the first of a double tap. */
+  private lastTap: {time: number; pos: {x: number; y: number}} | undefined = undefined;
+  private boxZoomState: {pointerId: number; start: {x: number; y: number}; end: {x: number; y: number}} | undefined = undefined;
+
+  constructor (options: IPanZoomOptions<TX, TY>) {
+    this.options = options;
+    this.scales = {xScale: options.xScale, yScale: options.yScale};
+    this.gesture = {
+      inProgress: false,
+      initialXScale: options.xScale, // dummy default
+      initialYScale: options.yScale, // dummy default
+      initialGestureBBox: {xMin: 0, xMax: 0, yMin: 0, yMax: 0, xWidth: 0, yHeight: 0}, // dummy default
+      currentGestureBBox: {xMin: 0, xMax: 0, yMin: 0, yMax: 0, xWidth: 0, yHeight: 0}, // dummy default
+      pointerPositions: new Map(),
+      constraint: undefined,
+      lockXAxis: false,
+      lockYAxis: false,
+      preserveAspectRatio: undefined,
+      minZoom: undefined,
+      maxZoom: undefined,
+      singleAxis: undefined,
+    };
+    this.setOptions(options);
+  }
+
+  /**
+   * Replace the options. The gesture in progress (if any) continues with the new options.
+   * In controlled mode, this is how a new `domain` is shown.
+   */
+  setOptions (options: IPanZoomOptions<TX, TY>): void {
+    const previousOptions = this.options;
+    this.options = options;
+    const {domain} = options;
+    if (domain) {
+      const previousDomain = getDomain(this.scales);
+      // The copies are kept for as long as the same scales (with the same ranges) are given.
+      const isCopyOf = (copy: IScale, previousScale: IScale, scale: IScale) => (
+        copy !== scale && previousScale === scale && copy.range().join() === scale.range().join()
+      );
+      const isCopied = (
+        isCopyOf(this.scales.xScale, previousOptions.xScale, options.xScale) &&
+        isCopyOf(this.scales.yScale, previousOptions.yScale, options.yScale)
+      );
+      const isChanged = !isSameDomain(domain, previousDomain);
+      if (!isCopied) {
+        this.scales = {xScale: options.xScale.copy(), yScale: options.yScale.copy()};
+      }
+      if (!isCopied || isChanged) {
+        this.setScaleDomains(domain);
+      }
+      if (isChanged) {
+        this.notifyDomainChange(getDomain(this.scales), previousDomain);
+        this.scheduleUpdate();
+      }
+    } else {
+      this.scales = {xScale: options.xScale, yScale: options.yScale};
+    }
+    const gesture = this.gesture;
+    gesture.constraint = options.constrain;
+    gesture.lockXAxis = options.lockXAxis ?? false;
+    gesture.lockYAxis = options.lockYAxis ?? false;
+    gesture.preserveAspectRatio = options.preserveAspectRatio;
+    gesture.minZoom = options.minZoom;
+    gesture.maxZoom = options.maxZoom;
+    // What shows the constraint (e.g. an overview or a scrollbar) is updated when it changes.
+    const getBounds = ({constrain}: IPanZoomOptions<TX, TY>) => (
+      [constrain?.xMin, constrain?.xMax, constrain?.yMin, constrain?.yMax].map((value) => (
+        value === undefined ? '' : toNumber(value)
+      )).join()
+    );
+    if (getBounds(options) !== getBounds(previousOptions)) {
+      this.scheduleUpdate();
+    }
+  }
+
+  /**
+   * Add a listener that is called (at most once per frame) after the scales or the constraint have changed.
+   * Returns a function that removes the listener.
+   */
+  subscribe (listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a listener that is called synchronously every time the domains of the scales change,
+   * with the new and the previous domain.
+   * Returns a function that removes the listener.
+   */
+  onDomainChange (listener: (domain: IDomain<TX, TY>, previousDomain: IDomain<TX, TY>) => void): () => void {
+    return this.on('change', ({domain, previousDomain}) => {
+      listener(domain, previousDomain);
+    });
+  }
+
+  /**
+   * Add a listener that is called when the view comes to rest after an interaction:
+   * at the end of a pointer gesture (including any momentum or spring back), of a burst of wheel events or key presses, of a transition,
+   * or of a series of changes through methods such as `setDomain`, `panBy`, `zoomBy` and `reset` (see `wheelIdleTimeout`).
+   * It receives the new domain and the domain at the previous rest.
+   * Returns a function that removes the listener.
+   */
+  onSettle (listener: (domain: IDomain<TX, TY>, previousDomain: IDomain<TX, TY>) => void): () => void {
+    return this.on('settle', ({domain, previousDomain}) => {
+      listener(domain, previousDomain);
+    });
+  }
+
+  /**
+   * Add a listener of the events of the given type, e.g. for analytics, tooltips or data loaders (see `IPanZoomEventMap`).
+   * Any number of listeners can listen to each type. They are called synchronously.
+   * In controlled mode, `pan`, `zoom`, `wheel`, `constrained` and `limitReached` describe the proposed change, like `onChange`.
+   * Returns a function that removes the listener.
+   */
+  on <K extends keyof IPanZoomEventMap> (
+    type: K,
+    listener: (event: IPanZoomEventMap<TX, TY>[K]) => void,
+  ): () => void {
+    const numericListener: IEventListener<K> = (event) => {
+      listener({
+        ...event,
+        domain: toScaleDomain(this.scales, event.domain),
+        previousDomain: toScaleDomain(this.scales, event.previousDomain),
+      } as IPanZoomEventMap<TX, TY>[K]);
+    };
+    const listeners: Set<IEventListener<K>> = this.eventListeners[type];
+    listeners.add(numericListener);
+    return () => {
+      listeners.delete(numericListener);
+    };
+  }
+
+  /**
+   * Stop listening to move events, cancel any pending notification, and drop all subscribers.
+   * The gesture in progress (if any) is abandoned.
+   */
+  destroy (): void {
+    this.interrupt();
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+    clearTimeout(this.settleTimer);
+    this.settleTimer = undefined;
+    this.stopListeningToMoves();
+    this.boxZoomState = undefined;
+    if (this.frameHandle !== undefined) {
+      (this.options.cancelFrame ?? defaultCancelFrame)(this.frameHandle);
+      this.frameHandle = undefined;
+    }
+    this.listeners.clear();
+    for (const listeners of Object.values(this.eventListeners)) {
+      listeners.clear();
+    }
+    this.interaction = undefined;
+    this.gesture.pointerPositions.clear();
+    this.gesture.inProgress = false;
+  }
+
+  /**
+   * Call `pointerDown` when a new pointer has been pressed.
+   * It includes the view-space coordinates and a pointer ID.
+   * When this happens, we create a new gesture, resetting all pointers to have new origins.
+   * Since a new pointer doesn't actually change the gesture, there is no need to update it.
+   *
+   * Pass `boxZoom: true` (e.g. while a modifier key is held, or for a given mouse button) to drag a box to zoom into instead.
+   * It only applies to the first pointer; other pointers are ignored until the box is released.
+   * Pass `shiftKey: true` while Shift is held, to make a double click zoom out.
+   */
+  pointerDown (
+    pointerId: number,
+    pos: {x: number; y: number},
+    {
+      boxZoom = false,
+      shiftKey = false,
+    }: {
+      boxZoom?: boolean;
+      shiftKey?: boolean;
+    } = {},
+  ): void {
+    const gesture = this.gesture;
+    if (this.boxZoomState) return;
+    this.interrupt();
+    this.rememberHome();
+    // A pointer ends the wheel burst (if any); the gesture takes over from here.
+    clearTimeout(this.idleTimer);
+    this.idleTimer = undefined;
+    if (this.interaction?.input !== 'pointer') {
+      this.endInteraction();
+    }
+    if (!gesture.inProgress && boxZoom) {
+      // Case: first pointer pressed down to drag a zoom box.
+      this.boxZoomState = {pointerId, start: pos, end: pos};
+      this.listenToMoves();
+    } else if (!gesture.inProgress) {
+      // Case: first pointer pressed down.
+      gesture.inProgress = true;
+      gesture.pointerPositions.set(pointerId, pos);
+      this.pinchSamples = [];
+      this.resetGesture();
+      this.listenToMoves();
+      this.tapState = {time: this.now(), positions: new Map([[pointerId, pos]]), zoomOut: shiftKey};
+    } else {
+      // Case: second or Nth pointer pressed down.
+      // Commit the current gesture and start a new one.
+      this.commitGesture();
+      gesture.pointerPositions.set(pointerId, pos);
+      this.resetGesture();
+      this.tapState?.positions.set(pointerId, pos);
+    }
+    this.startInteraction('pointer');
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Call `pointerMove` for every move of every pointer, passing the pointer position relative to the view element.
+   * This is called automatically when `registerMoveListener` is provided.
+   */
+  pointerMove (
+    pointerId: number,
+    pos: {x: number; y: number},
+  ): void {
+    const gesture = this.gesture;
+    if (this.boxZoomState) {
+      if (pointerId !== this.boxZoomState.pointerId) return;
+      this.boxZoomState.end = pos;
+      this.scheduleUpdate();
+      return;
+    }
+    if (!gesture.inProgress) return;
+    // Ignore moves that originated outside of the element (they had no pointerdown event).
+    if (!gesture.pointerPositions.has(pointerId)) return;
+
+    gesture.pointerPositions.set(pointerId, pos);
+    const tapStart = this.tapState?.positions.get(pointerId);
+    if (tapStart && Math.hypot(pos.x - tapStart.x, pos.y - tapStart.y) > this.getDoubleTapOptions().maxDistance) {
+      // The pointer moved too far to be a tap: it's a pan.
+      this.tapState = undefined;
+    }
+    gesture.currentGestureBBox = calcBbox(gesture.pointerPositions);
+    this.recordMoveSample(gesture.currentGestureBBox);
+    this.commitGesture();
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Call `pointerUp` on pointer up events, passing the pointerId.
+   */
+  pointerUp (
+    pointerId: number,
+  ): void {
+    const gesture = this.gesture;
+    if (this.boxZoomState) {
+      if (pointerId === this.boxZoomState.pointerId) {
+        this.endBoxZoom();
+      }
+      return;
+    }
+    if (!gesture.inProgress) return;
+
+    gesture.currentGestureBBox = calcBbox(gesture.pointerPositions);
+    this.commitGesture();
+    this.scheduleUpdate();
+    if (gesture.pointerPositions.size > 1) {
+      // The remaining pointers start a new gesture, but the pinch may still glide when they are lifted right after.
+      this.pinchSamples = this.moveSamples;
+    }
+    gesture.pointerPositions.delete(pointerId);
+    this.resetGesture();
+
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- wrong; method calls change gesture state
+    if (!gesture.inProgress) {
+      // At the end of the interaction, stop listening to move events.
+      this.stopListeningToMoves();
+      this.endInteraction();
+      if (!this.zoomOnTap() && !this.springBack()) {
+        this.startGlide();
+      }
+      this.settle();
+    }
+  }
+
+  /**
+   * Call `pointerCancel` on pointer cancel events (e.g. when the browser takes over a touch), passing the pointerId.
+   * The pointer is abandoned: unlike `pointerUp`, it doesn't zoom on a tap or glide, and a box zoom is abandoned too.
+   */
+  pointerCancel (
+    pointerId: number,
+  ): void {
+    if (this.boxZoomState) {
+      if (pointerId === this.boxZoomState.pointerId) {
+        this.cancelBoxZoom();
+      }
+      return;
+    }
+    this.tapState = undefined;
+    this.lastTap = undefined;
+    this.moveSamples = [];
+    this.pinchSamples = [];
+    this.pointerUp(pointerId);
+  }
+
+  /**
+   * Call `wheelZoom` on wheel events from the chart element.
+   * Pass a position relative to the chart element.
+   * The zoomRatio is a number from `0..1` corresponding to the proportion of the domain to zoom by.
+   */
+  wheelZoom ({
+    center,
+    zoomRatio,
+  }: {
+    center: {x: number; y: number};
+    zoomRatio: number;
+  }): void {
+    const gesture = this.gesture;
+    // Ignore wheel events if a gesture is in progress, because they simply don't work and add visual jitter.
+    if (gesture.inProgress || this.boxZoomState) return;
+    this.interrupt();
+    this.rememberHome();
+    this.startInteraction('wheel');
+
+    this.mutate('wheel', () => {
+      zoom({
+        xScale: this.scales.xScale,
+        yScale: this.scales.yScale,
+        center: this.getZoomCenter(this.scales, center),
+        zoomRatio,
+        constraint: gesture.constraint,
+        lockXAxis: gesture.lockXAxis,
+        lockYAxis: gesture.lockYAxis,
+        minZoom: gesture.minZoom,
+        maxZoom: gesture.maxZoom,
+        elasticity: this.getElasticity(),
+      });
+    });
+
+    this.scheduleUpdate();
+    this.restartIdleTimer();
+  }
+
+  /**
+   * Call `wheel` on wheel events from the chart element, passing the fields of the `WheelEvent`
+   * and a position relative to the chart element.
+   * Depending on the device (see `classifyWheel`) and the `wheel` option, it zooms (like `wheelZoom`) or pans.
+   */
+  wheel ({
+    center,
+    ...input
+  }: IWheelInput & {
+    center: {x: number; y: number};
+  }): void {
+    if (this.gesture.inProgress || this.boxZoomState) return;
+    const {deltaX = 0, deltaY, deltaMode, ctrlKey = false, metaKey = false, shiftKey = false} = input;
+    const {mode = 'zoom', sensitivity = {}} = this.options.wheel ?? {};
+    const kind = classifyWheel(input);
+
+    const isZoom = ctrlKey || metaKey || (mode === 'zoom' && kind === 'wheel' && !shiftKey);
+    if (isZoom) {
+      this.wheelZoom({
+        center,
+        zoomRatio: Math.pow(2, normalizeWheelDelta({
+          delta: deltaY,
+          deltaMode,
+          multiplier: kind === 'wheel' ? (sensitivity.wheel ?? 1) : (sensitivity.pinch ?? 10),
+        })),
+      });
+      return;
+    }
+
+    const [xRange0, xRange1] = this.scales.xScale.range();
+    const [yRange0, yRange1] = this.scales.yScale.range();
+    const multiplier = kind === 'wheel' ? 1 : (sensitivity.trackpad ?? 1);
+    // Shift turns a vertical wheel into a horizontal one, where the browser doesn't already.
+    const [deltaH, deltaV] = (shiftKey && deltaX === 0) ? [deltaY, 0] : [deltaX, deltaY];
+    const dx = normalizeWheelPan({delta: deltaH, deltaMode, pageSize: Math.abs(xRange1 - xRange0)}) * multiplier;
+    const dy = normalizeWheelPan({delta: deltaV, deltaMode, pageSize: Math.abs(yRange1 - yRange0)}) * multiplier;
+    this.interrupt();
+    this.rememberHome();
+    this.startInteraction('wheel');
+    this.mutate('wheel', () => {
+      this.applyDomain(calcPannedDomain({...this.scales, dx, dy, units: 'range'}));
+    });
+    this.scheduleUpdate();
+    this.restartIdleTimer();
+  }
+
+  /**
+   * Call `hover` when the pointer moves over the chart element (without being pressed), passing its position,
+   * and with `undefined` when it leaves. Keyboard zooms are centered on the hovered position.
+   */
+  hover (
+    pos: {x: number; y: number} | undefined,
+  ): void {
+    this.hoverPosition = pos;
+  }
+
+  /**
+   * Call `keyDown` on key down events from the focused chart element.
+   * Arrow keys pan, `+`/`-` and PageUp/PageDown zoom (around the hovered position, or the center of the view),
+   * and Home resets. Shift makes the arrow and page steps bigger.
+   * Returns whether the key was handled, in which case the default action of the event should be prevented.
+   */
+  keyDown ({
+    key,
+    shiftKey = false,
+  }: {
+    key: string;
+    shiftKey?: boolean;
+  }): boolean {
+    if (this.gesture.inProgress || this.boxZoomState) return false;
+    const {
+      panStep = 50,
+      zoomFactor = 1.25,
+      shiftMultiplier = 4,
+    } = this.options.keyboard ?? {};
+    const multiplier = shiftKey ? shiftMultiplier : 1;
+    const pan = (dx: number, dy: number) => {
+      this.startInteraction('keyboard');
+      this.changeDomain('keyboard', calcPannedDomain({...this.scales, dx, dy, units: 'range'}));
+    };
+    const zoomIn = (factor: number) => {
+      this.startInteraction('keyboard');
+      this.zoomAround('keyboard', factor, this.hoverPosition);
+    };
+    switch (key) {
+      case 'ArrowLeft': pan(-panStep * multiplier, 0); break;
+      case 'ArrowRight': pan(panStep * multiplier, 0); break;
+      case 'ArrowUp': pan(0, -panStep * multiplier); break;
+      case 'ArrowDown': pan(0, panStep * multiplier); break;
+      // Shift is needed to type `+` or `_` on many layouts, so it doesn't make their steps bigger.
+      case '+':
+      case '=': zoomIn(zoomFactor); break;
+      case '-':
+      case '_': zoomIn(1 / zoomFactor); break;
+      case 'PageUp': zoomIn(Math.pow(zoomFactor, multiplier)); break;
+      case 'PageDown': zoomIn(1 / Math.pow(zoomFactor, multiplier)); break;
+      case 'Home': {
+        const domain = this.options.resetDomain ?? this.homeDomain;
+        if (domain) {
+          this.startInteraction('keyboard');
+          this.changeDomain('keyboard', domain);
+        }
+        break;
+      }
+      default: return false;
+    }
+    this.restartIdleTimer();
+    return true;
+  }
+
+  /**
+   * The box zoom in progress (if any), for rendering the box.
+   */
+  getZoomBox (): IZoomBox<TX, TY> | undefined {
+    const state = this.boxZoomState;
+    if (!state) return undefined;
+    const {axis, preserveAspectRatio = this.options.preserveAspectRatio} = this.options.boxZoom ?? {};
+    const {range, domain} = calcZoomBox({
+      ...this.scales,
+      start: state.start,
+      end: state.end,
+      axis,
+      preserveAspectRatio,
+    });
+    return {range, domain: toScaleDomain(this.scales, domain)};
+  }
+
+  /**
+   * Abandon the box zoom in progress (if any), e.g. when the Escape key is pressed.
+   */
+  cancelBoxZoom (): void {
+    if (!this.boxZoomState) return;
+    this.boxZoomState = undefined;
+    this.stopListeningToMoves();
+    this.endInteraction();
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Whether the view is at rest: no pointer gesture, box zoom, wheel burst, transition or glide is in progress.
+   */
+  get isAtRest (): boolean {
+    return !this.gesture.inProgress && !this.boxZoomState && !this.animation && this.idleTimer === undefined;
+  }
+
+  /**
+   * The scales that show the view: the ones given in the options, or in controlled mode, internal copies of them
+   * that show the `domain`.
+   */
+  getScales (): {xScale: IScale<TX>; yScale: IScale<TY>} {
+    return {
+      xScale: this.scales.xScale,
+      yScale: this.scales.yScale,
+    };
+  }
+
+  /**
+   * The `anchor` option: where zooms are anchored on each axis.
+   */
+  getAnchor (): {x?: IZoomAnchor<TX>; y?: IZoomAnchor<TY>} | undefined {
+    return this.options.anchor;
+  }
+
+  /**
+   * The current `[xDomain, yDomain]` of the scales, with Dates for time scales.
+   */
+  getDomain (): IDomain<TX, TY> {
+    return toScaleDomain(this.scales, getDomain(this.scales));
+  }
+
+  /**
+   * Show the given domain, applying the constraint, span limits and axis locks.
+   * Pass `settle: false` for changes that the user didn't ask for (e.g. following live data),
+   * so that they don't settle (see `onSettle`) and aren't recorded as views of the user.
+   */
+  setDomain (
+    domain: IDomain<TX | number, TY | number>,
+    {settle = true}: {settle?: boolean} = {},
+  ): void {
+    this.changeDomain('api', domain, settle);
+  }
+
+  /**
+   * Animate the view to the given domain.
+   * The constraint, span limits and axis locks are applied on every frame.
+   * The transition is interrupted by a new pointer, a wheel event, another programmatic change, or `interrupt`.
+   * Returns a promise that resolves to `true` when the transition completes, or `false` when it is interrupted.
+   */
+  transitionTo (
+    domain: IDomain<TX | number, TY | number>,
+    {
+      duration,
+      easing = easeCubicInOut,
+      smooth = false,
+    }: ITransitionOptions = {},
+  ): Promise<boolean> {
+    this.interrupt();
+    this.rememberHome();
+
+    // Find the legal end of the transition by applying the domain to copies of the scales.
+    const xScale = this.scales.xScale.copy();
+    const yScale = this.scales.yScale.copy();
+    this.applyDomain(domain, {xScale, yScale});
+    const to = getDomain({xScale, yScale});
+
+    const {interpolate, duration: pathDuration} = interpolateDomain({
+      xScale: this.scales.xScale.copy(),
+      yScale: this.scales.yScale.copy(),
+      from: getDomain(this.scales),
+      to,
+      smooth,
+    });
+    const reducedMotion = this.options.reducedMotion ?? prefersReducedMotion();
+    const actualDuration = reducedMotion ? 0 : (duration ?? pathDuration ?? DEFAULT_TRANSITION_DURATION);
+    if (!(actualDuration > 0)) {
+      this.mutate('animation', () => {
+        this.applyDomain(to);
+      });
+      this.afterProgrammaticChange();
+      this.settle();
+      return Promise.resolve(true);
+    }
+    const startTime = this.now();
+    return new Promise((resolve) => {
+      this.startAnimation({
+        source: 'animation',
+        step: (now) => {
+          const t = Math.min(1, Math.max(0, (now - startTime) / actualDuration));
+          this.applyDomain(t < 1 ? interpolate(easing(t)) : to);
+          return t < 1;
+        },
+        end: resolve,
+      });
+    });
+  }
+
+  /**
+   * Stop the transition or momentum glide in progress (if any), leaving the view where it is.
+   */
+  interrupt (): void {
+    const animation = this.animation;
+    if (!animation) return;
+    this.animation = undefined;
+    animation.end(false);
+  }
+
+  /**
+   * Move the view.
+   * In `'range'` units (the default), positive `dx`/`dy` move the view right/down on the screen by that many pixels.
+   * In `'domain'` units, positive `dx`/`dy` move the view towards larger domain values.
+   */
+  panBy (
+    {dx = 0, dy = 0}: {dx?: number; dy?: number},
+    {units = 'range'}: {units?: 'range' | 'domain'} = {},
+  ): void {
+    this.setDomain(calcPannedDomain({
+      xScale: this.scales.xScale,
+      yScale: this.scales.yScale,
+      dx,
+      dy,
+      units,
+    }));
+  }
+
+  /**
+   * Zoom in (`factor > 1`) or out (`factor < 1`) around the given center,
+   * which is a position relative to the chart element. Defaults to the center of the view.
+   * The center plays the part of the cursor for the `anchor` option.
+   */
+  zoomBy (
+    factor: number,
+    center?: {x: number; y: number},
+  ): void {
+    this.zoomAround('api', factor, center);
+  }
+
+  /**
+   * Return to `resetDomain`, or to the domain the scales had before the first interaction.
+   */
+  reset (): void {
+    const domain = this.options.resetDomain ?? this.homeDomain;
+    if (!domain) return;
+    this.setDomain(domain);
+  }
+
+  private changeDomain (
+    source: IChangeSource,
+    domain: IDomain<TX | number, TY | number>,
+    shouldSettle = true,
+  ): void {
+    this.interrupt();
+    this.rememberHome();
+    const isChanged = this.mutate(source, () => {
+      const previousDomain = getDomain(this.scales);
+      this.applyDomain(domain);
+      return !isSameDomain(getDomain(this.scales), previousDomain);
+    });
+    this.afterProgrammaticChange();
+    // Key presses settle at the end of their burst.
+    if (isChanged && source === 'api' && shouldSettle) {
+      this.restartSettleTimer();
+    } else if (isChanged && !shouldSettle && this.settleTimer === undefined) {
+      // The view rests here without settling, so the next settle is from here.
+      this.settledDomain = getDomain(this.scales);
+    }
+  }
+
+  private zoomAround (
+    source: IChangeSource,
+    factor: number,
+    center: {x: number; y: number} | undefined,
+  ): void {
+    this.changeDomain(source, this.calcZoomedDomain(factor, center));
+  }
+
+  /**
+   * The domain that results from zooming by `factor` around `center` (defaults to the center of the view),
+   * within the constraint, span limits and axis locks.
+   */
+  private calcZoomedDomain (
+    factor: number,
+    center: {x: number; y: number} | undefined,
+  ): IDomain {
+    const xScale = this.scales.xScale.copy();
+    const yScale = this.scales.yScale.copy();
+    const [xRange0, xRange1] = xScale.range();
+    const [yRange0, yRange1] = yScale.range();
+    zoom({
+      xScale,
+      yScale,
+      center: this.getZoomCenter({xScale, yScale}, center ?? {x: (xRange0 + xRange1) / 2, y: (yRange0 + yRange1) / 2}),
+      zoomRatio: zoomFactorToRatio(factor),
+      constraint: this.gesture.constraint,
+      lockXAxis: this.gesture.lockXAxis,
+      lockYAxis: this.gesture.lockYAxis,
+      minZoom: this.gesture.minZoom,
+      maxZoom: this.gesture.maxZoom,
+    });
+    return getDomain({xScale, yScale});
+  }
+
+  /**
+   * The range positions that zooms are anchored at on each axis (see the `anchor` option),
+   * or `undefined` on the axes that zoom around `position`.
+   */
+  private getZoomAnchor (
+    scales: {xScale: IScale; yScale: IScale},
+    position: {x: number; y: number},
+  ): {x: number | undefined; y: number | undefined} {
+    const {x, y} = this.options.anchor ?? {};
+    return {
+      x: resolveZoomAnchor(x, scales.xScale, position.x),
+      y: resolveZoomAnchor(y, scales.yScale, position.y),
+    };
+  }
+
+  /**
+   * The center of a zoom from `position` (e.g. the cursor), following the `anchor` option.
+   */
+  private getZoomCenter (
+    scales: {xScale: IScale; yScale: IScale},
+    position: {x: number; y: number},
+  ): {x: number; y: number} {
+    const anchor = this.getZoomAnchor(scales, position);
+    return {x: anchor.x ?? position.x, y: anchor.y ?? position.y};
+  }
+
+  private applyDomain (
+    domain: IDomain<TX | number, TY | number>,
+    {xScale, yScale}: {xScale: IScale; yScale: IScale} = this.scales,
+  ): void {
+    applyDomain({
+      xScale,
+      yScale,
+      domain,
+      constraint: this.gesture.constraint,
+      lockXAxis: this.gesture.lockXAxis,
+      lockYAxis: this.gesture.lockYAxis,
+      minZoom: this.gesture.minZoom,
+      maxZoom: this.gesture.maxZoom,
+    });
+  }
+
+  private now (): number {
+    return (this.options.now ?? defaultNow)();
+  }
+
+  private startAnimation (animation: IAnimation): void {
+    this.interrupt();
+    this.animation = animation;
+    this.scheduleUpdate();
+  }
+
+  /**
+   * Apply the current frame of the animation in progress (if any), and schedule the next frame.
+   */
+  private stepAnimation (): void {
+    const animation = this.animation;
+    if (!animation) return;
+    const isRunning = this.mutate(animation.source, () => animation.step(this.now()));
+    if (isRunning) {
+      this.scheduleUpdate();
+    } else {
+      this.animation = undefined;
+      animation.end(true);
+      this.settle();
+    }
+  }
+
+  /**
+   * Notify the settle listeners, unless the view is still moving or about to move.
+   */
+  private settle (): void {
+    if (!this.isAtRest) return;
+    const domain = getDomain(this.scales);
+    const snapped = this.options.snap && toNumericDomain(this.options.snap(toScaleDomain(this.scales, domain)));
+    if (snapped && !isSameDomain(snapped, domain) && !(this.snapTarget && isSameDomain(snapped, this.snapTarget))) {
+      this.snapTarget = snapped;
+      // This settles again at the end of the transition.
+      void this.transitionTo(snapped);
+      return;
+    }
+    this.snapTarget = undefined;
+    const previousDomain = this.settledDomain ?? domain;
+    this.settledDomain = domain;
+    this.emit('settle', this.createEvent(domain, previousDomain, this.lastInput));
+  }
+
+  /**
+   * Record the gesture bbox, to estimate the velocity when the gesture is released.
+   */
+  private recordMoveSample (bbox: IBBox): void {
+    const time = this.now();
+    this.moveSamples.push({
+      time,
+      x: (bbox.xMin + bbox.xMax) / 2,
+      y: (bbox.yMin + bbox.yMax) / 2,
+      size: Math.max(bbox.xWidth, bbox.yHeight),
+    });
+    // Keep a few samples beyond the window, so that there is always something to compare the release to.
+    while (this.moveSamples.length > 2 && time - this.moveSamples[1].time > VELOCITY_WINDOW) {
+      this.moveSamples.shift();
+    }
+  }
+
+  /**
+   * Keep the view moving with the velocity of the released gesture, decelerating with friction.
+   */
+  private startGlide (): void {
+    const {momentum} = this.options;
+    if (!momentum) return;
+    const {
+      friction = 0.05,
+      minVelocity = 0.02,
+    } = momentum === true ? {} : momentum;
+    const startTime = this.now();
+    // When the last pointer of a pinch didn't move on its own, the pinch glides.
+    const samples = estimateVelocity(this.moveSamples, startTime) ? this.moveSamples : this.pinchSamples;
+    const velocity = estimateVelocity(samples, startTime);
+    const last = samples[samples.length - 1] as IMoveSample | undefined;
+    this.moveSamples = [];
+    this.pinchSamples = [];
+    if (!velocity || !last) return;
+
+    const {singleAxis, lockXAxis, lockYAxis} = this.gesture;
+    const moveX = !lockXAxis && singleAxis !== 'y';
+    const moveY = !lockYAxis && singleAxis !== 'x';
+    // After a pinch, the axes that aren't anchored to the cursor keep zooming around their anchors, without panning.
+    const anchor = last.size > 0 ? this.getZoomAnchor(this.scales, last) : {x: undefined, y: undefined};
+    let vx = moveX && anchor.x === undefined ? velocity.vx : 0;
+    let vy = moveY && anchor.y === undefined ? velocity.vy : 0;
+    let vZoom = velocity.vZoom;
+    if (Math.hypot(vx, vy) < minVelocity && Math.abs(vZoom) * 100 < minVelocity) return;
+
+    // The content moves with the pointers, so the view moves the opposite way.
+    // Decelerate faster if needed, so that the glide comes to rest at the constraint edges instead of hitting them.
+    const decayRate = frictionToDecayRate(friction);
+    const distances = calcDistancesToConstraint({...this.scales, constraint: this.gesture.constraint});
+    const xDecayRate = decayRateToStopWithin(vx, vx > 0 ? distances.left : distances.right, decayRate);
+    const yDecayRate = decayRateToStopWithin(vy, vy > 0 ? distances.up : distances.down, decayRate);
+    let center = {x: last.x, y: last.y};
+    let previousTime = startTime;
+
+    this.startAnimation({
+      source: 'gesture',
+      step: (now) => {
+        const dt = now - previousTime;
+        previousTime = now;
+        const x = decay(vx, xDecayRate, dt);
+        const y = decay(vy, yDecayRate, dt);
+        const zoom = decay(vZoom, decayRate, dt);
+        vx = x.velocity;
+        vy = y.velocity;
+        vZoom = zoom.velocity;
+        const k = Math.exp(zoom.distance);
+        this.applyDomain(calcTransformedDomain({
+          ...this.scales,
+          center: {x: anchor.x ?? center.x, y: anchor.y ?? center.y},
+          kx: moveX ? k : 1,
+          ky: moveY ? k : 1,
+          dx: -x.distance,
+          dy: -y.distance,
+        }));
+        center = {x: center.x + x.distance, y: center.y + y.distance};
+        // The zoom velocity is a log rate, so it is compared as if it was a speed over 100px.
+        return Math.hypot(vx, vy) >= minVelocity || Math.abs(vZoom) * 100 >= minVelocity;
+      },
+      end: () => undefined,
+    });
+  }
+
+  /**
+   * Remember the domain before the first change, so that `reset` can return to it.
+   */
+  private rememberHome (): void {
+    this.homeDomain ??= getDomain(this.scales);
+    this.settledDomain ??= this.homeDomain;
+  }
+
+  /**
+   * After the domain was changed programmatically, restart the gesture in progress (if any)
+   * from the new domain, so that the next pointer move doesn't undo the change.
+   */
+  private afterProgrammaticChange (): void {
+    if (this.gesture.inProgress) {
+      this.resetGesture();
+    }
+    this.scheduleUpdate();
+  }
+
+  private commitGesture (): void {
+    const gesture = this.gesture;
+    const {initialGestureBBox: bbox} = gesture;
+    // Pinches follow the anchors, single pointers always pan.
+    const anchor = gesture.pointerPositions.size > 1 ?
+      this.getZoomAnchor(
+        {xScale: gesture.initialXScale, yScale: gesture.initialYScale},
+        {x: (bbox.xMin + bbox.xMax) / 2, y: (bbox.yMin + bbox.yMax) / 2},
+      ) :
+      undefined;
+    this.mutate('gesture', () => {
+      updateScales({
+        xScale: this.scales.xScale,
+        yScale: this.scales.yScale,
+        initialXScale: gesture.initialXScale,
+        initialYScale: gesture.initialYScale,
+        initialGestureBBox: gesture.initialGestureBBox,
+        currentGestureBBox: gesture.currentGestureBBox,
+        constraint: gesture.constraint,
+        lockXAxis: gesture.lockXAxis,
+        lockYAxis: gesture.lockYAxis,
+        preserveAspectRatio: gesture.preserveAspectRatio,
+        minZoom: gesture.minZoom,
+        maxZoom: gesture.maxZoom,
+        singleAxis: gesture.singleAxis,
+        anchor,
+        elasticity: this.getElasticity(),
+      });
+    });
+  }
+
+  /**
+   * Run a function that may change the domains of the scales, and report the change if it did.
+   * In controlled mode, the change is reverted and only proposed through `onChange`.
+   * Returns what the function returns.
+   */
+  private mutate<T> (
+    source: IChangeSource,
+    fn: () => T,
+  ): T {
+    const previousDomain = getDomain(this.scales);
+    // The edges and span limits are only compared when someone listens for them to be reached.
+    const isWatchingLimits = this.hasListeners('constrained') || this.hasListeners('limitReached');
+    const previousLimits = isWatchingLimits ? this.getLimitState() : undefined;
+    const result = fn();
+    const domain = getDomain(this.scales);
+    if (isSameDomain(domain, previousDomain)) return result;
+
+    // Differences below a billionth of the span are float noise.
+    const isClose = (a: number, b: number, span: number) => Math.abs(a - b) <= Math.abs(span) * 1e-9;
+    const [[x0, x1], [y0, y1]] = domain;
+    const [[prevX0, prevX1], [prevY0, prevY1]] = previousDomain;
+    const isSameSpan = isClose(x1 - x0, prevX1 - prevX0, prevX1 - prevX0) && isClose(y1 - y0, prevY1 - prevY0, prevY1 - prevY0);
+    const meta: IChangeMeta = {
+      type: source === 'gesture' ? (isSameSpan ? 'pan' : 'zoom') : source,
+      x: !isClose(x0, prevX0, prevX1 - prevX0) || !isClose(x1, prevX1, prevX1 - prevX0),
+      y: !isClose(y0, prevY0, prevY1 - prevY0) || !isClose(y1, prevY1, prevY1 - prevY0),
+    };
+    const limits = previousLimits && this.getLimitState();
+    this.lastInput = source === 'gesture' ? 'pointer' : source;
+    if (this.options.domain) {
+      // Keep showing the controlled domain until the owner passes the next one back.
+      this.setScaleDomains(previousDomain);
+    } else {
+      this.notifyDomainChange(domain, previousDomain);
+    }
+    this.options.onChange?.(toScaleDomain(this.scales, domain), meta);
+
+    const event = this.createEvent(domain, previousDomain, this.lastInput);
+    this.emit(isSameSpan ? 'pan' : 'zoom', event);
+    if (source === 'wheel') {
+      this.emit('wheel', event);
+    }
+    if (previousLimits && limits) {
+      const edgeKeys = {xMin: 'atXMin', xMax: 'atXMax', yMin: 'atYMin', yMax: 'atYMax'} as const;
+      const edges = (Object.keys(edgeKeys) as IConstraintEdge[]).filter((edge) => (
+        limits.edges[edgeKeys[edge]] && !previousLimits.edges[edgeKeys[edge]]
+      ));
+      if (edges.length > 0) {
+        this.emit('constrained', {...event, edges});
+      }
+      const reached: Partial<ISpanLimitState> = {};
+      for (const axis of ['x', 'y'] as const) {
+        const limit = limits.spans[axis];
+        if (limit && limit !== previousLimits.spans[axis]) {
+          reached[axis] = limit;
+        }
+      }
+      if (reached.x || reached.y) {
+        this.emit('limitReached', {...event, limits: reached});
+      }
+    }
+    return result;
+  }
+
+  private notifyDomainChange (domain: IDomain, previousDomain: IDomain): void {
+    this.emit('change', this.createEvent(domain, previousDomain, this.lastInput));
+  }
+
+  private emit <K extends keyof IPanZoomEventMap> (
+    type: K,
+    event: IPanZoomEventMap[K],
+  ): void {
+    const listeners: Set<IEventListener<K>> = this.eventListeners[type];
+    for (const listener of [...listeners]) {
+      listener(event);
+    }
+  }
+
+  private hasListeners (type: keyof IPanZoomEventMap): boolean {
+    return this.eventListeners[type].size > 0;
+  }
+
+  private createEvent (
+    domain: IDomain,
+    previousDomain: IDomain,
+    input: IPanZoomInput,
+  ): IPanZoomEvent {
+    return {
+      domain,
+      previousDomain,
+      pointerCount: this.boxZoomState ? 1 : this.gesture.pointerPositions.size,
+      input,
+    };
+  }
+
+  /**
+   * Which edges of the constraint and which span limits the view is at, see the `constrained` and `limitReached` events.
+   */
+  private getLimitState (): {edges: IConstraintEdges; spans: ISpanLimitState} {
+    const {constraint, minZoom, maxZoom} = this.gesture;
+    return {
+      edges: calcConstraintEdges({...this.scales, constraint}),
+      spans: calcSpanLimitState({...this.scales, minZoom, maxZoom}),
+    };
+  }
+
+  /**
+   * Emit `gesturestart` for the given input, unless its gesture is already in progress.
+   * The gesture of another input (if any) ends first, e.g. when a key is pressed during a burst of wheel events.
+   */
+  private startInteraction (input: IPanZoomInput): void {
+    if (this.interaction?.input === input) return;
+    this.endInteraction();
+    const domain = getDomain(this.scales);
+    this.interaction = {input, domain};
+    this.emit('gesturestart', this.createEvent(domain, domain, input));
+  }
+
+  /**
+   * Emit `gestureend` for the gesture in progress (if any).
+   */
+  private endInteraction (): void {
+    const interaction = this.interaction;
+    if (!interaction) return;
+    this.interaction = undefined;
+    this.emit('gestureend', this.createEvent(getDomain(this.scales), interaction.domain, interaction.input));
+  }
+
+  private setScaleDomains ([xDomain, yDomain]: IDomain<number | Date, number | Date>): void {
+    setScaleDomain(this.scales.xScale, xDomain);
+    setScaleDomain(this.scales.yScale, yDomain);
+  }
+
+  /** The rubber-band resistance, or `undefined` when not elastic. */
+  private getElasticity (): number | undefined {
+    const {elastic} = this.options;
+    if (!elastic) return undefined;
+    return (elastic === true ? undefined : elastic.resistance) ?? 0.55;
+  }
+
+  /**
+   * If the view has travelled past the constraint or span limits (in elastic mode), animate it back.
+   * Returns whether it did.
+   */
+  private springBack (): boolean {
+    const {elastic} = this.options;
+    if (!elastic) return false;
+    const {duration = 300} = elastic === true ? {} : elastic;
+
+    const from = getDomain(this.scales);
+    const xScale = this.scales.xScale.copy();
+    const yScale = this.scales.yScale.copy();
+    this.applyDomain(from, {xScale, yScale});
+    const to = getDomain({xScale, yScale});
+    const isLegal = [0, 1].every((i) => (
+      Math.abs(xScale(from[0][i]) - xScale(to[0][i])) < 0.01 &&
+      Math.abs(yScale(from[1][i]) - yScale(to[1][i])) < 0.01
+    ));
+    if (isLegal) return false;
+
+    // The frames in between are outside of the limits, so they are set directly rather than through `applyDomain`.
+    const {interpolate} = interpolateDomain({xScale, yScale, from, to});
+    const reducedMotion = this.options.reducedMotion ?? prefersReducedMotion();
+    const startTime = this.now();
+    this.startAnimation({
+      source: 'animation',
+      step: (now) => {
+        const t = reducedMotion ? 1 : Math.min(1, Math.max(0, (now - startTime) / duration));
+        this.setScaleDomains(t < 1 ? interpolate(easeCubicOut(t)) : to);
+        return t < 1;
+      },
+      end: () => undefined,
+    });
+    return true;
+  }
+
+  private resetGesture (): void {
+    const gesture = this.gesture;
+    if (gesture.pointerPositions.size === 0) {
+      gesture.inProgress = false;
+      return;
+    }
+    const bbox = calcBbox(gesture.pointerPositions);
+    if (gesture.pointerPositions.size < 2) {
+      gesture.singleAxis = undefined;
+    } else {
+      const isXNarrow = (bbox.xWidth < SINGLE_AXIS_THRESHOLD);
+      const isYNarrow = (bbox.yHeight < SINGLE_AXIS_THRESHOLD);
+      const bothAreNarrow = (isXNarrow && isYNarrow);
+      const predominantlyX = (bbox.xWidth / bbox.yHeight > 1.2);
+      const predominantlyY = (bbox.xWidth / bbox.yHeight < 0.8);
+      gesture.singleAxis = gesture.preserveAspectRatio ?
+        undefined :
+        (bothAreNarrow) ?
+          (predominantlyY) ? 'y' : (predominantlyX) ? 'x' : undefined :
+          (isXNarrow) ?
+            'y' :
+            isYNarrow ?
+              'x':
+              undefined
+      ;
+    }
+    gesture.initialGestureBBox = bbox;
+    gesture.currentGestureBBox = bbox;
+    this.moveSamples = [];
+    this.recordMoveSample(bbox);
+    gesture.initialXScale = this.scales.xScale.copy();
+    gesture.initialYScale = this.scales.yScale.copy();
+  }
+
+  private getDoubleTapOptions (): Required<IDoubleTapOptions> {
+    const {doubleTap} = this.options;
+    const {
+      factor = 2,
+      maxDelay = 300,
+      maxDistance = 10,
+      duration = DEFAULT_TRANSITION_DURATION,
+    } = typeof doubleTap === 'object' ? doubleTap : {};
+    return {factor, maxDelay, maxDistance, duration};
+  }
+
+  /**
+   * At the end of a gesture, zoom if it was the second tap of a double tap, or a two-finger tap.
+   * Returns whether it zoomed.
+   */
+  private zoomOnTap (): boolean {
+    const tap = this.tapState;
+    const lastTap = this.lastTap;
+    this.tapState = undefined;
+    this.lastTap = undefined;
+    if (!tap || !this.options.doubleTap) return false;
+    const {factor, maxDelay, maxDistance, duration} = this.getDoubleTapOptions();
+    const now = this.now();
+    // A long press is not a tap.
+    if (now - tap.time > maxDelay) return false;
+
+    const positions = [...tap.positions.values()];
+    const pos = {
+      x: positions.reduce((sum, {x}) => sum + x, 0) / positions.length,
+      y: positions.reduce((sum, {y}) => sum + y, 0) / positions.length,
+    };
+    let zoomFactor: number;
+    if (positions.length > 1) {
+      zoomFactor = 1 / factor;
+    } else if (lastTap && tap.time - lastTap.time <= maxDelay && Math.hypot(pos.x - lastTap.pos.x, pos.y - lastTap.pos.y) <= maxDistance) {
+      zoomFactor = tap.zoomOut ? 1 / factor : factor;
+    } else {
+      this.lastTap = {time: now, pos};
+      return false;
+    }
+    void this.transitionTo(this.calcZoomedDomain(zoomFactor, pos), {duration});
+    return true;
+  }
+
+  /**
+   * Zoom into the box that was released, unless it is too small.
+   */
+  private endBoxZoom (): void {
+    const box = this.getZoomBox();
+    this.boxZoomState = undefined;
+    this.stopListeningToMoves();
+    this.scheduleUpdate();
+    if (!box) {
+      this.endInteraction();
+      return;
+    }
+    const {axis = 'xy', minSize = 5} = this.options.boxZoom ?? {};
+    const [[xMin, xMax], [yMin, yMax]] = box.range;
+    const isTooSmall = (
+      (axis !== 'y' && xMax - xMin < minSize) ||
+      (axis !== 'x' && yMax - yMin < minSize)
+    );
+    if (isTooSmall) {
+      this.endInteraction();
+      return;
+    }
+    this.mutate('gesture', () => {
+      this.applyDomain(box.domain);
+    });
+    this.endInteraction();
+    this.settle();
+  }
+
+  private listenToMoves (): void {
+    this.removeMoveListener = this.options.registerMoveListener?.((pointerId, pos) => {
+      this.pointerMove(pointerId, pos);
+    });
+  }
+
+  /**
+   * (Re)start the timer that ends a burst of wheel events or key presses, after which the view settles.
+   */
+  private restartIdleTimer (): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = undefined;
+      this.endInteraction();
+      this.springBack();
+      this.settle();
+    }, this.options.wheelIdleTimeout ?? DEFAULT_WHEEL_IDLE_TIMEOUT);
+  }
+
+  /**
+   * (Re)start the timer that settles the view once changes through methods such as `setDomain` stop coming,
+   * so that the changes of a drag (e.g. of a scrollbar or a slider) settle once, at its end.
+   * Unlike a wheel burst, a pending settle doesn't keep the view from being at rest (see `isAtRest`).
+   */
+  private restartSettleTimer (): void {
+    clearTimeout(this.settleTimer);
+    this.settleTimer = setTimeout(() => {
+      this.settleTimer = undefined;
+      this.settle();
+    }, this.options.wheelIdleTimeout ?? DEFAULT_WHEEL_IDLE_TIMEOUT);
+  }
+
+  private stopListeningToMoves (): void {
+    this.removeMoveListener?.();
+    this.removeMoveListener = undefined;
+  }
+
+  private scheduleUpdate (): void {
+    if (this.frameHandle !== undefined) return;
+    this.frameHandle = (this.options.requestFrame ?? defaultRequestFrame)(() => {
+      this.frameHandle = undefined;
+      this.stepAnimation();
+      for (const listener of [...this.listeners]) {
+        listener();
+      }
+    });
+  }
+}
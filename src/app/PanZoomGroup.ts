@@ -0,0 +1,116 @@
+import type { PanZoomController } from './PanZoomController';
+import { calcTransformedDomain, getScaleTransform, toNumericDomain, type IScaleTransform } from './panZoom-utils';
+import type { IDomain } from './types';
+
+
+/**
+ * What a member of a `PanZoomGroup` follows when another member's view changes:
+ *   - `'x'` — the x domain.
+ *   - `'y'` — the y domain.
+ *   - `'xy'` — both domains.
+ *   - `'zoom'` — the zoom level only: its spans grow or shrink by the same factors, around its own center.
+ *     The factors are measured where the scales are linear (see `getScaleTransform`), e.g. in decades for log scales.
+ */
+export type ISyncMode = 'x' | 'y' | 'xy' | 'zoom';
+
+interface IMember {
+  mode: ISyncMode;
+  removeDomainChangeListener: () => void;
+}
+
+
+/**
+ * `PanZoomGroup` — links the views of several `PanZoomController`s (e.g. stacked charts that share an x axis).
+ *
+ * A change in any member's view is propagated to the others according to their sync mode.
+ * The propagated domain goes through each member's own constraint, span limits and axis locks,
+ * and the changes it causes are not propagated again, so there are no feedback loops.
+ */
+export class PanZoomGroup {
+  private readonly mode: ISyncMode;
+  private readonly members = new Map<PanZoomController<number | Date>, IMember>();
+  private isSyncing = false;
+
+  constructor ({
+    mode = 'x',
+  }: {
+    /** The default sync mode of the members. Defaults to `'x'`. */
+    mode?: ISyncMode;
+  } = {}) {
+    this.mode = mode;
+  }
+
+  /**
+   * Add a controller to the group. Returns a function that removes it.
+   */
+  add (
+    controller: PanZoomController<number | Date>,
+    {
+      mode = this.mode,
+    }: {
+      /** What this member follows. Defaults to the mode of the group. */
+      mode?: ISyncMode;
+    } = {},
+  ): () => void {
+    this.remove(controller);
+    this.members.set(controller, {
+      mode,
+      removeDomainChangeListener: controller.onDomainChange((domain, previousDomain) => {
+        this.propagate(controller, toNumericDomain(domain), toNumericDomain(previousDomain));
+      }),
+    });
+    return () => {
+      this.remove(controller);
+    };
+  }
+
+  /**
+   * Remove a controller from the group.
+   */
+  remove (controller: PanZoomController<number | Date>): void {
+    this.members.get(controller)?.removeDomainChangeListener();
+    this.members.delete(controller);
+  }
+
+  private propagate (
+    source: PanZoomController<number | Date>,
+    domain: IDomain,
+    previousDomain: IDomain,
+  ): void {
+    if (this.isSyncing) return;
+    this.isSyncing = true;
+    const [[x0, x1], [y0, y1]] = domain;
+    const sourceScales = source.getScales();
+    // How much the view of the source zoomed in, where its scale is linear.
+    const calcZoomFactor = (
+      transform: IScaleTransform,
+      [d0, d1]: readonly [number, number],
+      [prev0, prev1]: readonly [number, number],
+    ) => (transform.forward(prev1) - transform.forward(prev0)) / (transform.forward(d1) - transform.forward(d0));
+    try {
+      for (const [member, {mode}] of this.members) {
+        if (member === source) continue;
+        const [memberXDomain, memberYDomain] = member.getDomain();
+        if (mode === 'zoom') {
+          const {xScale, yScale} = member.getScales();
+          const [xRange0, xRange1] = xScale.range();
+          const [yRange0, yRange1] = yScale.range();
+          member.setDomain(calcTransformedDomain({
+            xScale,
+            yScale,
+            center: {x: (xRange0 + xRange1) / 2, y: (yRange0 + yRange1) / 2},
+            kx: calcZoomFactor(getScaleTransform(sourceScales.xScale), domain[0], previousDomain[0]),
+            ky: calcZoomFactor(getScaleTransform(sourceScales.yScale), domain[1], previousDomain[1]),
+          }));
+        } else {
+          member.setDomain([
+            mode === 'y' ? memberXDomain : [x0, x1],
+            mode === 'x' ? memberYDomain : [y0, y1],
+          ]);
+        }
+      }
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+}
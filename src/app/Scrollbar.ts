@@ -0,0 +1,223 @@
+import type { PanZoomController } from './PanZoomController';
+import { getScaleTransform, toNumber, toNumericDomain, type IScaleTransform } from './panZoom-utils';
+import type { IDomain } from './types';
+
+const DEFAULT_MIN_THUMB_SIZE = 20;
+const DEFAULT_HANDLE_SIZE = 6;
+
+
+/** The options of `Scrollbar`. */
+export interface IScrollbarOptions {
+  /** The axis of the main view that the scrollbar shows and moves. */
+  axis: 'x' | 'y';
+  /** The length of the track, in pixels. */
+  length: number;
+  /** The smallest length of the thumb, in pixels, so that it stays grabbable when zoomed in far. Defaults to 20px. */
+  minThumbSize?: number;
+  /** How close (in pixels) the pointer must be to an end of the thumb to resize it. Defaults to 6px. */
+  handleSize?: number;
+}
+
+/** The thumb of a scrollbar: where it starts along the track, and its length, in pixels. */
+export interface IScrollbarThumb {
+  start: number;
+  size: number;
+}
+
+/**
+ * What a position along the track is over (see `Scrollbar.hitTest`):
+ * the thumb (which pans), one of its ends (which zoom), or the track before or after it (which pages).
+ */
+export type IScrollbarTarget = 'thumb' | 'start' | 'end' | 'before' | 'after';
+
+/** The state of the axis in the space where its scale is linear (see `getScaleTransform`). */
+interface IScrollbarState {
+  transform: IScaleTransform;
+  /** The extent of the constraint (grown to include the view), as `[min, max]`. */
+  extent: [number, number];
+  /** The view, as `[min, max]`. */
+  view: [number, number];
+  /** Whether the domain is descending. */
+  isDescending: boolean;
+  /** Whether the track runs from the largest domain value to the smallest, like a y axis with a flipped range. */
+  isReversed: boolean;
+  thumb: IScrollbarThumb;
+}
+
+
+/**
+ * `Scrollbar` — a headless scrollbar for one axis of a `PanZoomController`.
+ *
+ * The thumb shows where the domain is within the extent of the constraint, and how much of it is in view.
+ * Positions are measured where the scale is linear, so that the thumb is proportional for log, pow and symlog scales too.
+ * Dragging the thumb pans, dragging its ends zooms, and pressing the track pages towards the pointer by one view.
+ * All changes go through `setDomain`, so they obey the constraint and span limits of the main view.
+ * Positions along the track grow like range positions (left to right, top to bottom),
+ * so the largest values of a y axis with a flipped range are at the top.
+ */
+export class Scrollbar {
+  private readonly controller: PanZoomController<number | Date>;
+  private readonly axis: 'x' | 'y';
+  private readonly length: number;
+  private readonly minThumbSize: number;
+  private readonly handleSize: number;
+  private drag: {
+    pointerId: number;
+    target: 'thumb' | 'start' | 'end';
+    start: number;
+    state: IScrollbarState;
+  } | undefined = undefined;
+
+  constructor (
+    controller: PanZoomController<number | Date>,
+    {
+      axis,
+      length,
+      minThumbSize = DEFAULT_MIN_THUMB_SIZE,
+      handleSize = DEFAULT_HANDLE_SIZE,
+    }: IScrollbarOptions,
+  ) {
+    this.controller = controller;
+    this.axis = axis;
+    this.length = length;
+    this.minThumbSize = Math.min(minThumbSize, length);
+    this.handleSize = handleSize;
+  }
+
+  /**
+   * The thumb, in pixels along the track.
+   */
+  getThumb (): IScrollbarThumb {
+    return this.getState().thumb;
+  }
+
+  /**
+   * What the given position along the track is over, e.g. to pick a cursor.
+   */
+  hitTest (
+    pos: number,
+  ): IScrollbarTarget {
+    const {start, size} = this.getThumb();
+    const end = start + size;
+    // Keep the middle of small thumbs for dragging.
+    const handle = Math.min(this.handleSize, size / 3);
+    if (pos < start - handle) return 'before';
+    if (pos > end + handle) return 'after';
+    if (pos <= start + handle) return 'start';
+    if (pos >= end - handle) return 'end';
+    return 'thumb';
+  }
+
+  /**
+   * Call `pointerDown` when a pointer is pressed on the scrollbar, passing its position along the track.
+   * Only one pointer drags at a time.
+   */
+  pointerDown (
+    pointerId: number,
+    pos: number,
+  ): void {
+    if (this.drag) return;
+    const target = this.hitTest(pos);
+    const state = this.getState();
+    if (target === 'before' || target === 'after') {
+      // Page by one view, like the track of a native scrollbar.
+      const [v0, v1] = state.view;
+      const towardsMin = (target === 'before') !== state.isReversed;
+      const delta = (towardsMin ? -1 : 1) * (v1 - v0);
+      this.apply(state, [v0 + delta, v1 + delta]);
+      return;
+    }
+    this.drag = {pointerId, target, start: pos, state};
+  }
+
+  /**
+   * Call `pointerMove` when a pointer moves, passing its position along the track.
+   */
+  pointerMove (
+    pointerId: number,
+    pos: number,
+  ): void {
+    const drag = this.drag;
+    if (drag?.pointerId !== pointerId) return;
+    const {state} = drag;
+    const {extent: [e0, e1], view: [v0, v1], thumb, isReversed} = state;
+    const direction = isReversed ? -1 : 1;
+    const delta = pos - drag.start;
+    if (drag.target === 'thumb') {
+      // The thumb travels the track minus its size, while the view travels the extent minus its span.
+      const travel = this.length - thumb.size;
+      const offset = travel > 0 ? direction * delta * ((e1 - e0) - (v1 - v0)) / travel : 0;
+      this.apply(state, [v0 + offset, v1 + offset]);
+      return;
+    }
+    const offset = direction * delta * (e1 - e0) / this.length;
+    // The end of the thumb at the start of the track is the min of the view, or its max if the track is reversed.
+    const isMin = (drag.target === 'start') !== isReversed;
+    const view: [number, number] = isMin ? [v0 + offset, v1] : [v0, v1 + offset];
+    if (view[0] >= view[1]) return;
+    this.apply(state, view);
+  }
+
+  /**
+   * Call `pointerUp` when a pointer is released.
+   */
+  pointerUp (
+    pointerId: number,
+  ): void {
+    if (this.drag?.pointerId !== pointerId) return;
+    this.drag = undefined;
+  }
+
+  /**
+   * Abandon the drag in progress (if any).
+   */
+  destroy (): void {
+    this.drag = undefined;
+  }
+
+  private getState (): IScrollbarState {
+    const scale = this.controller.getScales()[this.axis === 'x' ? 'xScale' : 'yScale'];
+    const transform = getScaleTransform(scale);
+    const [xDomain, yDomain] = toNumericDomain(this.controller.getDomain());
+    const [d0, d1] = this.axis === 'x' ? xDomain : yDomain;
+    const {constraint} = this.controller.gesture;
+    const [min, max] = this.axis === 'x' ? [constraint?.xMin, constraint?.xMax] : [constraint?.yMin, constraint?.yMax];
+    const view: [number, number] = [transform.forward(Math.min(d0, d1)), transform.forward(Math.max(d0, d1))];
+    // An unbounded (or elastically exceeded) side of the constraint ends at the view.
+    const extent: [number, number] = [
+      Math.min(view[0], min === undefined ? Infinity : transform.forward(toNumber(min))),
+      Math.max(view[1], max === undefined ? -Infinity : transform.forward(toNumber(max))),
+    ];
+    const isDescending = d1 < d0;
+    const [range0, range1] = scale.range();
+    const isReversed = (range1 < range0) !== isDescending;
+
+    const extentSpan = extent[1] - extent[0];
+    const viewSpan = view[1] - view[0];
+    const size = Math.max(this.minThumbSize, extentSpan > 0 ? this.length * viewSpan / extentSpan : this.length);
+    const scrollable = extentSpan - viewSpan;
+    const offset = scrollable > 0 ? (this.length - size) * (view[0] - extent[0]) / scrollable : 0;
+    return {
+      transform,
+      extent,
+      view,
+      isDescending,
+      isReversed,
+      thumb: {start: isReversed ? this.length - size - offset : offset, size},
+    };
+  }
+
+  /**
+   * Show the given `[min, max]` view (in transformed units) on the axis of the scrollbar.
+   */
+  private apply (
+    {transform, isDescending}: IScrollbarState,
+    [min, max]: [number, number],
+  ): void {
+    const [xDomain, yDomain] = toNumericDomain(this.controller.getDomain());
+    const [lower, upper] = [transform.inverse(min), transform.inverse(max)];
+    const axisDomain: [number, number] = isDescending ? [upper, lower] : [lower, upper];
+    const domain: IDomain = this.axis === 'x' ? [axisDomain, yDomain] : [xDomain, axisDomain];
+    this.controller.setDomain(domain);
+  }
+}
@@ -0,0 +1,136 @@
+import type { PanZoomController } from './PanZoomController';
+import { isSameDomain } from './panZoom-utils';
+import type { IDomain } from './types';
+
+const DEFAULT_MAX_LENGTH = 50;
+
+
+/**
+ * `ViewHistory` — an undo/redo stack of the views of a `PanZoomController`.
+ *
+ * A snapshot of the domain is recorded each time the view settles (see `PanZoomController.onSettle`),
+ * i.e. once per gesture, wheel burst, transition or series of changes through methods such as `setDomain`.
+ * Going back or forward applies the snapshot through `setDomain`, so it is constrained by the current options.
+ */
+export class ViewHistory {
+  private readonly controller: PanZoomController<number | Date>;
+  private readonly maxLength: number;
+  private readonly listeners = new Set<() => void>();
+  private entries: IDomain<number | Date, number | Date>[] = [];
+  private index = -1;
+  /** The view shown by the last `back` or `forward`, which isn't recorded when it settles. */
+  private shownDomain: IDomain<number | Date, number | Date> | undefined = undefined;
+  private readonly removeSettleListener: () => void;
+
+  constructor (
+    controller: PanZoomController<number | Date>,
+    {
+      maxLength = DEFAULT_MAX_LENGTH,
+    }: {
+      /** The maximum number of entries. The oldest entries are dropped. Defaults to 50. */
+      maxLength?: number;
+    } = {},
+  ) {
+    this.controller = controller;
+    this.maxLength = Math.max(1, maxLength);
+    this.removeSettleListener = controller.onSettle((domain, previousDomain) => {
+      this.record(domain, previousDomain);
+    });
+  }
+
+  get canGoBack (): boolean {
+    return this.index > 0;
+  }
+
+  get canGoForward (): boolean {
+    return this.index < this.entries.length - 1;
+  }
+
+  /** The number of entries. */
+  get length (): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Show the previous view, if any.
+   */
+  back (): void {
+    if (!this.canGoBack) return;
+    this.go(this.index - 1);
+  }
+
+  /**
+   * Show the next view, if any (after going back).
+   */
+  forward (): void {
+    if (!this.canGoForward) return;
+    this.go(this.index + 1);
+  }
+
+  /**
+   * Forget all entries.
+   */
+  clear (): void {
+    this.entries = [];
+    this.index = -1;
+    this.notify();
+  }
+
+  /**
+   * Add a listener that is called when the entries or the position in the history change.
+   * Returns a function that removes the listener.
+   */
+  subscribe (listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stop recording, and drop all subscribers.
+   */
+  destroy (): void {
+    this.removeSettleListener();
+    this.listeners.clear();
+  }
+
+  private record (
+    domain: IDomain<number | Date, number | Date>,
+    previousDomain: IDomain<number | Date, number | Date>,
+  ): void {
+    const shownDomain = this.shownDomain;
+    this.shownDomain = undefined;
+    // The entry may have been constrained differently when shown; going to it isn't a new view.
+    if (shownDomain && isSameDomain(domain, shownDomain)) return;
+    if (this.entries.length === 0) {
+      if (isSameDomain(domain, previousDomain)) return;
+      // The first entry is the view before the first interaction.
+      this.entries.push(previousDomain);
+      this.index = 0;
+    }
+    if (isSameDomain(domain, this.entries[this.index])) return;
+    // A new view discards the views that were gone back from.
+    this.entries = this.entries.slice(0, this.index + 1);
+    this.entries.push(domain);
+    if (this.entries.length > this.maxLength) {
+      this.entries = this.entries.slice(this.entries.length - this.maxLength);
+    }
+    this.index = this.entries.length - 1;
+    this.notify();
+  }
+
+  private go (index: number): void {
+    this.index = index;
+    this.controller.setDomain(this.entries[index]);
+    this.shownDomain = this.controller.getDomain();
+    this.notify();
+  }
+
+  private notify (): void {
+    for (const listener of [...this.listeners]) {
+      listener();
+    }
+  }
+}
+
@@ -0,0 +1,118 @@
+import type { PanZoomController } from './PanZoomController';
+import { parseView, serializeView } from './serialize-utils';
+
+const DEFAULT_DELAY = 250;
+
+
+/** The options of `ViewUrlSync`. */
+export interface IViewUrlSyncOptions {
+  /** The name of the URL parameter that holds the view. Defaults to `'view'`. */
+  param?: string;
+  /** Keep the view in the query string (`location.search`, the default) or in the hash (`location.hash`). */
+  target?: 'search' | 'hash';
+  /** A version tag. Views with another tag (or no tag) are ignored when restoring. */
+  version?: string;
+  /** The URL is updated this many milliseconds after the view stops changing. Defaults to 250ms. */
+  delay?: number;
+}
+
+
+/**
+ * `ViewUrlSync` — keeps the view of a `PanZoomController` in the URL, so that it can be shared and survives reloads.
+ *
+ * The view is restored from the URL on creation, and again when the user navigates (`popstate`/`hashchange`).
+ * It goes through `setDomain`, so it is validated against the constraint and span limits.
+ * The URL is updated with `history.replaceState` once the view settles (see `onSettle`), never while it is moving (during a gesture, a glide or a transition).
+ * It does nothing where there is no `location` (e.g. in Node).
+ */
+export class ViewUrlSync {
+  private readonly controller: PanZoomController<number | Date>;
+  private readonly param: string;
+  private readonly target: 'search' | 'hash';
+  private readonly version: string | undefined;
+  private readonly delay: number;
+  private writeTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+  private readonly cleanups: (() => void)[] = [];
+
+  constructor (
+    controller: PanZoomController<number | Date>,
+    {
+      param = 'view',
+      target = 'search',
+      version,
+      delay = DEFAULT_DELAY,
+    }: IViewUrlSyncOptions = {},
+  ) {
+    this.controller = controller;
+    this.param = param;
+    this.target = target;
+    this.version = version;
+    this.delay = delay;
+    if (typeof location === 'undefined') return;
+
+    this.restore();
+    // Only the views that settle are written: not the moves of gestures, glides and transitions,
+    // nor changes that don't settle (e.g. scrolling with live data).
+    this.cleanups.push(controller.onSettle(() => {
+      this.scheduleWrite();
+    }));
+    const onNavigate = () => {
+      this.restore();
+    };
+    const eventName = target === 'hash' ? 'hashchange' : 'popstate';
+    addEventListener(eventName, onNavigate);
+    this.cleanups.push(() => {
+      removeEventListener(eventName, onNavigate);
+    });
+  }
+
+  /**
+   * Show the view in the URL, if there is a valid one. Returns whether there was.
+   */
+  restore (): boolean {
+    const value = this.getParams().get(this.param);
+    const domain = value === null ? undefined : parseView(value, {version: this.version});
+    if (!domain) return false;
+    this.controller.setDomain(domain);
+    return true;
+  }
+
+  /**
+   * Stop syncing. The URL keeps the last written view.
+   */
+  destroy (): void {
+    clearTimeout(this.writeTimer);
+    this.writeTimer = undefined;
+    for (const cleanup of this.cleanups.splice(0)) {
+      cleanup();
+    }
+  }
+
+  private scheduleWrite (): void {
+    clearTimeout(this.writeTimer);
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = undefined;
+      // The view is written again when it settles.
+      if (!this.controller.isAtRest) return;
+      this.write();
+    }, this.delay);
+  }
+
+  private write (): void {
+    const params = this.getParams();
+    const value = serializeView(this.controller.getScales(), {version: this.version});
+    if (params.get(this.param) === value) return;
+    params.set(this.param, value);
+    const url = new URL(location.href);
+    if (this.target === 'hash') {
+      url.hash = params.toString();
+    } else {
+      url.search = params.toString();
+    }
+    history.replaceState(history.state, '', url);
+  }
+
+  private getParams (): URLSearchParams {
+    return new URLSearchParams(this.target === 'hash' ? location.hash.slice(1) : location.search);
+  }
+}
@@ -0,0 +1,130 @@
+import type { PanZoomController } from './PanZoomController';
+import {
+  getDomain,
+  getSpanTransform,
+  resolveZoomAnchor,
+  toNumber,
+  zoom,
+  zoomFactorToRatio,
+} from './panZoom-utils';
+import type { IScale, IZoomAnchor } from './types';
+
+
+/** The options of `ZoomSlider`. */
+export interface IZoomSliderOptions {
+  /**
+   * The axes that the slider zooms: one of them (`'x'` or `'y'`), or both together (`'xy'`, the default).
+   * With `'xy'`, the position follows the x axis, or the y axis if the x axis has no span limits.
+   */
+  axis?: 'x' | 'y' | 'xy';
+  /** Where the zooms are anchored on each axis, see `IZoomAnchor`. Defaults to the center of the view. */
+  anchor?: {x?: IZoomAnchor<number | Date>; y?: IZoomAnchor<number | Date>};
+}
+
+
+/**
+ * `ZoomSlider` — a headless zoom slider for a `PanZoomController`, like the one of map applications.
+ *
+ * The position goes from 0 (zoomed out to the `maxZoom` span, or to the extent of the constraint)
+ * to 1 (zoomed in to the `minZoom` span), on a log scale of the span, so that each step of the slider zooms by the same factor.
+ * Spans are measured in the `units` of `minZoom`, e.g. in decades for log scales with `units: 'transformed'`.
+ * Setting the position zooms like a wheel zoom, within the constraint, span limits and axis locks.
+ */
+export class ZoomSlider {
+  private readonly controller: PanZoomController<number | Date>;
+  private readonly axis: 'x' | 'y' | 'xy';
+  private readonly anchor: {x?: IZoomAnchor<number | Date>; y?: IZoomAnchor<number | Date>};
+
+  constructor (
+    controller: PanZoomController<number | Date>,
+    {
+      axis = 'xy',
+      anchor = {x: 'center', y: 'center'},
+    }: IZoomSliderOptions = {},
+  ) {
+    this.controller = controller;
+    this.axis = axis;
+    this.anchor = anchor;
+  }
+
+  /**
+   * The position of the slider, from 0 (zoomed out) to 1 (zoomed in),
+   * or `undefined` if the axis has no span limits (or constraint extent) to slide between.
+   */
+  getPosition (): number | undefined {
+    const spans = this.getSpans();
+    if (!spans) return undefined;
+    const {span, minSpan, maxSpan} = spans;
+    const position = Math.log(maxSpan / span) / Math.log(maxSpan / minSpan);
+    return Math.min(1, Math.max(0, position));
+  }
+
+  /**
+   * Zoom to the given position, from 0 (zoomed out) to 1 (zoomed in), around the anchors.
+   */
+  setPosition (
+    position: number,
+  ): void {
+    const spans = this.getSpans();
+    if (!spans) return;
+    const {span, minSpan, maxSpan} = spans;
+    const targetSpan = maxSpan * Math.pow(minSpan / maxSpan, Math.min(1, Math.max(0, position)));
+    const factor = span / targetSpan;
+    if (!(factor > 0) || factor === 1) return;
+
+    // Zoom copies of the scales like a wheel zoom, then show the result.
+    const {gesture} = this.controller;
+    const scales = this.controller.getScales();
+    const xScale = scales.xScale.copy();
+    const yScale = scales.yScale.copy();
+    const [xRange0, xRange1] = xScale.range();
+    const [yRange0, yRange1] = yScale.range();
+    const xCenter = (xRange0 + xRange1) / 2;
+    const yCenter = (yRange0 + yRange1) / 2;
+    zoom({
+      xScale,
+      yScale,
+      center: {
+        x: resolveZoomAnchor(this.anchor.x, xScale, xCenter) ?? xCenter,
+        y: resolveZoomAnchor(this.anchor.y, yScale, yCenter) ?? yCenter,
+      },
+      zoomRatio: zoomFactorToRatio(factor),
+      constraint: gesture.constraint,
+      lockXAxis: gesture.lockXAxis || this.axis === 'y',
+      lockYAxis: gesture.lockYAxis || this.axis === 'x',
+      minZoom: gesture.minZoom,
+      maxZoom: gesture.maxZoom,
+    });
+    this.controller.setDomain(getDomain({xScale, yScale}));
+  }
+
+  /**
+   * The current span of the axis that the position follows, and the spans at both ends of the slider.
+   */
+  private getSpans (): {span: number; minSpan: number; maxSpan: number} | undefined {
+    const {xScale, yScale} = this.controller.getScales();
+    if (this.axis !== 'y') {
+      const spans = this.getAxisSpans(xScale, 'x');
+      if (spans || this.axis === 'x') return spans;
+    }
+    return this.getAxisSpans(yScale, 'y');
+  }
+
+  private getAxisSpans (
+    scale: IScale,
+    axis: 'x' | 'y',
+  ): {span: number; minSpan: number; maxSpan: number} | undefined {
+    const {constraint, minZoom, maxZoom} = this.controller.gesture;
+    const spanKey = axis === 'x' ? 'xSpan' : 'ySpan';
+    const transform = getSpanTransform(scale, minZoom);
+    const measure = (v0: number | Date, v1: number | Date) => (
+      Math.abs(transform.forward(toNumber(v1)) - transform.forward(toNumber(v0)))
+    );
+    const [min, max] = axis === 'x' ? [constraint?.xMin, constraint?.xMax] : [constraint?.yMin, constraint?.yMax];
+    const minSpan = minZoom?.[spanKey];
+    const maxSpan = maxZoom?.[spanKey] ?? (min !== undefined && max !== undefined ? measure(min, max) : undefined);
+    if (minSpan === undefined || maxSpan === undefined || !(minSpan > 0) || !(maxSpan > minSpan)) return undefined;
+    const [d0, d1] = scale.domain();
+    return {span: measure(d0, d1), minSpan, maxSpan};
+  }
+}
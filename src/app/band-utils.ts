@@ -0,0 +1,131 @@
+import { toNumber } from './panZoom-utils';
+import type { IScale } from './types';
+
+
+/** A band or point scale, such as `scaleBand` and `scalePoint` of `d3-scale`. */
+export interface IBandScale <TCategory> {
+  (category: TCategory): number | undefined;
+  domain: () => TCategory[];
+  range: () => number[];
+  bandwidth: () => number;
+  step: () => number;
+}
+
+/**
+ * A continuous scale over the indices of the categories of a band or point scale, see `createBandIndexScale`.
+ * It can be panned and zoomed like any other scale, and positions the bands at the current zoom.
+ */
+export interface IBandIndexScale <TCategory> extends IScale<number> {
+  range: {
+    (): number[];
+    (newRange: number[]): void;
+  };
+  copy: () => IBandIndexScale<TCategory>;
+  /** The categories, in order. */
+  categories: () => TCategory[];
+  /** The index of the category, or `undefined` if there is no such category. Its band spans `[index, index + 1]`. */
+  index: (category: TCategory) => number | undefined;
+  /**
+   * The position of the start of the band of the category in pixels, at the current zoom, like `scaleBand`.
+   * For point scales, this is the position of the point.
+   */
+  band: (category: TCategory) => number | undefined;
+  /** The width of each band in pixels, at the current zoom. It is 0 for point scales. */
+  bandwidth: () => number;
+  /**
+   * The bands that are in view, wholly or partly: the index of the first one, the index after the last one,
+   * and their categories. Render only these.
+   */
+  visible: () => {start: number; end: number; categories: TCategory[]};
+  /** Round the ends of an index domain to whole bands, keeping at least one band. */
+  snapDomain: (domain: readonly [number, number]) => [number, number];
+}
+
+
+/**
+ * Wrap a band or point scale (which has no `invert`) in a continuous index scale, to pan and zoom over the categories.
+ *
+ * The domain of the index scale is in bands: the band of the category at index `i` spans `[i, i + 1]`,
+ * with the inner padding of the band scale, and its point (for point scales) is at `i + 0.5`.
+ * The index scale starts with the range of the band scale, and the domain that puts the bands (or points) where the band scale does,
+ * including its outer padding and alignment: `[0, categories.length]` for a band scale without outer padding or inner padding.
+ * Positions may be fractional, so a zoom may show parts of bands. To show whole bands at rest,
+ * pass `snap: ([xDomain, yDomain]) => [xScale.snapDomain(xDomain), yDomain]` to `usePanZoom`.
+ *
+ * The categories and the padding are read once: create a new index scale when they change.
+ */
+export function createBandIndexScale <TCategory> (
+  bandScale: IBandScale<TCategory>,
+): IBandIndexScale<TCategory> {
+  const categories = bandScale.domain();
+  const step = bandScale.step();
+  // The inner padding, as a fraction of the step. It is 1 for point scales, whose bands are empty.
+  const paddingInner = step > 0 ? 1 - (bandScale.bandwidth() / step) : 0;
+  const [r0, r1] = bandScale.range();
+  const first = categories.length > 0 ? bandScale(categories[0]) : undefined;
+  if (first === undefined || step === 0) {
+    return createIndexScale(categories, paddingInner, [0, categories.length], [r0, r1]);
+  }
+  // Start where the first band (the start of it, or its point) is in the band scale, which has the outer padding and alignment.
+  // In a reversed range, the start of a band is its end in the index domain.
+  const d0 = r1 >= r0 ?
+    (paddingInner / 2) - ((first - r0) / step) :
+    1 - (paddingInner / 2) - ((r0 - first) / step);
+  return createIndexScale(categories, paddingInner, [d0, d0 + (Math.abs(r1 - r0) / step)], [r0, r1]);
+}
+
+function createIndexScale <TCategory> (
+  categories: TCategory[],
+  paddingInner: number,
+  initialDomain: [number, number],
+  initialRange: [number, number],
+): IBandIndexScale<TCategory> {
+  let [d0, d1] = initialDomain;
+  let [r0, r1] = initialRange;
+  const indices = new Map(categories.map((category, i) => [category, i]));
+
+  const scale = (index: number | Date): number => r0 + ((toNumber(index) - d0) / (d1 - d0) * (r1 - r0));
+
+  function domain (): number[];
+  function domain (newDomain: (number | Date)[]): void;
+  function domain (newDomain?: (number | Date)[]): number[] | undefined {
+    if (!newDomain) return [d0, d1];
+    [d0, d1] = newDomain.map(toNumber);
+    return undefined;
+  }
+
+  function range (): number[];
+  function range (newRange: number[]): void;
+  function range (newRange?: number[]): number[] | undefined {
+    if (!newRange) return [r0, r1];
+    [r0, r1] = newRange;
+    return undefined;
+  }
+
+  const index = (category: TCategory) => indices.get(category);
+
+  scale.domain = domain;
+  scale.range = range;
+  scale.invert = (rangeValue: number) => d0 + ((rangeValue - r0) / (r1 - r0) * (d1 - d0));
+  scale.copy = () => createIndexScale(categories, paddingInner, [d0, d1], [r0, r1]);
+  scale.categories = () => [...categories];
+  scale.index = index;
+  scale.band = (category: TCategory) => {
+    const i = index(category);
+    if (i === undefined) return undefined;
+    return Math.min(scale(i + (paddingInner / 2)), scale(i + 1 - (paddingInner / 2)));
+  };
+  scale.bandwidth = () => Math.abs(scale(1 - paddingInner) - scale(0));
+  scale.visible = () => {
+    const start = Math.max(0, Math.floor(Math.min(d0, d1)));
+    const end = Math.max(start, Math.min(categories.length, Math.ceil(Math.max(d0, d1))));
+    return {start, end, categories: categories.slice(start, end)};
+  };
+  scale.snapDomain = ([s0, s1]: readonly [number, number]): [number, number] => {
+    const snapped0 = Math.round(s0);
+    const snapped1 = Math.round(s1);
+    if (snapped0 !== snapped1) return [snapped0, snapped1];
+    return [snapped0, snapped0 + (s1 >= s0 ? 1 : -1)];
+  };
+  return scale;
+}
@@ -1,4 +1,25 @@
+export * from './LiveEdge';
+export * from './Overview';
+export * from './PanZoomController';
+export * from './PanZoomGroup';
+export * from './Scrollbar';
+export * from './ViewHistory';
+export * from './ViewUrlSync';
+export * from './ZoomSlider';
+export * from './band-utils';
+export * from './momentum-utils';
 export * from './panZoom-utils';
+export * from './serialize-utils';
+export * from './transition-utils';
 export * from './types';
+export * from './useLinkedPanZoom';
+export * from './useLiveEdge';
+export * from './useOverview';
 export * from './usePanZoom';
+export * from './usePanZoomElement';
+export * from './useScrollbar';
 export * from './useTransform';
+export * from './useViewHistory';
+export * from './useViewUrlSync';
+export * from './useZoomControls';
+export * from './useZoomSlider';
@@ -0,0 +1,90 @@
+/** A sample of the gesture bbox, recorded on each pointer move to estimate the release velocity. */
+export interface IMoveSample {
+  time: number;
+  /** The center of the gesture bbox. */
+  x: number;
+  y: number;
+  /** The size of the gesture bbox (the larger of its width and height). Zero for a single pointer. */
+  size: number;
+}
+
+/** The options of momentum (fling) panning and zooming. */
+export interface IMomentumOptions {
+  /**
+   * The proportion of the velocity lost every 16ms (i.e. every frame at 60fps), from `0..1`.
+   * Defaults to `0.05`.
+   */
+  friction?: number;
+  /**
+   * Below this speed, in pixels per millisecond, the glide stops.
+   * Defaults to `0.02`.
+   */
+  minVelocity?: number;
+}
+
+/** Only the moves within this many milliseconds before the release count towards the velocity. */
+export const VELOCITY_WINDOW = 100;
+
+/**
+ * Estimate the velocity of a gesture at the moment it was released,
+ * from the samples recorded in the last `VELOCITY_WINDOW` milliseconds.
+ * `vx`/`vy` are in pixels per millisecond, and `vZoom` is the rate of change of the natural log of the gesture size.
+ * Returns `undefined` if the pointers were not moving when released.
+ */
+export function estimateVelocity (
+  samples: readonly IMoveSample[],
+  releaseTime: number,
+): {vx: number; vy: number; vZoom: number} | undefined {
+  const recent = samples.filter(({time}) => releaseTime - time <= VELOCITY_WINDOW);
+  if (recent.length < 2) return undefined;
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const dt = last.time - first.time;
+  if (dt <= 0) return undefined;
+  const vZoom = (first.size > 0 && last.size > 0) ?
+    Math.log(last.size / first.size) / dt :
+    0;
+  return {
+    vx: (last.x - first.x) / dt,
+    vy: (last.y - first.y) / dt,
+    vZoom,
+  };
+}
+
+/** Convert `friction` (the proportion of velocity lost per 16ms) to an exponential decay rate per millisecond. */
+export function frictionToDecayRate (
+  friction: number,
+): number {
+  return -Math.log(1 - Math.min(Math.max(friction, 0.0001), 0.9999)) / 16;
+}
+
+/**
+ * Advance an exponentially decaying velocity by `dt` milliseconds.
+ * Returns the distance travelled in that time, and the new velocity.
+ */
+export function decay (
+  velocity: number,
+  decayRate: number,
+  dt: number,
+): {distance: number; velocity: number} {
+  const factor = Math.exp(-decayRate * dt);
+  return {
+    distance: velocity * (1 - factor) / decayRate,
+    velocity: velocity * factor,
+  };
+}
+
+/**
+ * The decay rate needed for a glide starting at `velocity` to come to rest after exactly `distance`.
+ * Returns `decayRate` unchanged if the glide would stop before `distance` anyway.
+ */
+export function decayRateToStopWithin (
+  velocity: number,
+  distance: number,
+  decayRate: number,
+): number {
+  // The total distance of an exponentially decaying glide is `velocity / decayRate`.
+  const speed = Math.abs(velocity);
+  if (speed / decayRate <= distance) return decayRate;
+  return speed / Math.max(distance, 0.0001);
+}
@@ -1,4 +1,4 @@
-import type { IBBox, IGesture, IScale } from './types';
+import type { IBBox, IConstraint, IDomain, IGesture, IScale, ISpanLimits, IZoomAnchor, IZoomBox } from './types';
 
 /**
  * Set the domains of the given `xScale` and `yScale`
@@ -16,15 +16,11 @@ export function updateScales({
   lockXAxis,
   lockYAxis,
   preserveAspectRatio,
-  minZoom: {
-    xSpan: minXSpan,
-    ySpan: minYSpan,
-  } = {},
-  maxZoom: {
-    xSpan: maxXSpan,
-    ySpan: maxYSpan,
-  } = {},
+  minZoom = {},
+  maxZoom = {},
   singleAxis,
+  anchor = {},
+  elasticity,
 }: {
   xScale: IScale;
   yScale: IScale;
@@ -32,18 +28,31 @@ export function updateScales({
   initialYScale: IScale;
   initialGestureBBox: IBBox;
   currentGestureBBox: IBBox;
-  constraint: Partial<IBBox> | undefined;
+  constraint: IConstraint<number | Date> | undefined;
   lockXAxis: boolean;
   lockYAxis: boolean;
   preserveAspectRatio: boolean | undefined;
-  minZoom: {xSpan?: number; ySpan?: number} | undefined;
-  maxZoom: {xSpan?: number; ySpan?: number} | undefined;
+  minZoom: ISpanLimits | undefined;
+  maxZoom: ISpanLimits | undefined;
   singleAxis: IGesture['singleAxis'];
+  /**
+   * Range positions to zoom each axis around (see `resolveZoomAnchor`), instead of following the pointers.
+   * An axis with an anchor doesn't pan.
+   */
+  anchor?: {x?: number; y?: number};
+  /**
+   * When set, the domain may travel past the constraint and span limits, with this resistance (see `rubberBand`).
+   */
+  elasticity?: number;
 }): void {
   const squareInitialGestureBbox = preserveAspectRatio ? squareify(initialGestureBBox) : initialGestureBBox;
   const squareCurrentGestureBBox = preserveAspectRatio ? squareify(currentGestureBBox) : currentGestureBBox;
 
-  const {xk, xt, yk, yt} = calcKTs(squareInitialGestureBbox, squareCurrentGestureBBox);
+  const kts = calcKTs(squareInitialGestureBbox, squareCurrentGestureBBox);
+  const {xk, yk} = kts;
+  // Translate so that the anchor maps onto itself.
+  const xt = anchor.x === undefined ? kts.xt : anchor.x * (1 - xk);
+  const yt = anchor.y === undefined ? kts.yt : anchor.y * (1 - yk);
 
   const rangeOfNewXDomain = applyKTInverse(xScale.range(), xk, xt);
   const rangeOfNewYDomain = applyKTInverse(yScale.range(), yk, yt);
@@ -51,8 +60,8 @@ export function updateScales({
   const newXDomain = rangeOfNewXDomain.map((xRangeVal) => initialXScale.invert(xRangeVal));
   const newYDomain = rangeOfNewYDomain.map((yRangeVal) => initialYScale.invert(yRangeVal));
 
-  const newXDomainClamped = increaseToSpan(minXSpan, decreaseToSpan(maxXSpan, newXDomain));
-  const newYDomainClamped = increaseToSpan(minYSpan, decreaseToSpan(maxYSpan, newYDomain));
+  let newXDomainClamped = limitSpan(xScale, newXDomain, 'x', minZoom, maxZoom);
+  let newYDomainClamped = limitSpan(yScale, newYDomain, 'y', minZoom, maxZoom);
 
   constrain({
     xDomain: newXDomainClamped,
@@ -62,15 +71,20 @@ export function updateScales({
     yScale,
   });
 
+  if (elasticity !== undefined) {
+    newXDomainClamped = calcElasticDomain(initialXScale, newXDomain, newXDomainClamped, elasticity);
+    newYDomainClamped = calcElasticDomain(initialYScale, newYDomain, newYDomainClamped, elasticity);
+  }
+
   if (lockXAxis && lockYAxis) return;
 
   // Update the x scale.
   // The X scale should be update if the predominant gesture axis is X, or if there is no predominant gesture axis.
   if (!lockXAxis && (!singleAxis || singleAxis === 'x')) {
-    xScale.domain(newXDomainClamped);
+    setScaleDomain(xScale, newXDomainClamped);
   }
   if (!lockYAxis && (!singleAxis || singleAxis === 'y')) {
-    yScale.domain(newYDomainClamped);
+    setScaleDomain(yScale, newYDomainClamped);
   }
 }
 
@@ -82,14 +96,9 @@ export function zoom ({
   constraint,
   lockXAxis,
   lockYAxis,
-  minZoom: {
-    xSpan: minXSpan,
-    ySpan: minYSpan,
-  } = {},
-  maxZoom: {
-    xSpan: maxXSpan,
-    ySpan: maxYSpan,
-  } = {},
+  minZoom = {},
+  maxZoom = {},
+  elasticity,
 }: {
   xScale: IScale;
   yScale: IScale;
@@ -98,37 +107,248 @@ export function zoom ({
   constraint: Parameters<typeof constrain>[0]['constraint'];
   lockXAxis: boolean;
   lockYAxis: boolean;
-  minZoom: {xSpan?: number; ySpan?: number} | undefined;
-  maxZoom: {xSpan?: number; ySpan?: number} | undefined;
+  minZoom: ISpanLimits | undefined;
+  maxZoom: ISpanLimits | undefined;
+  /**
+   * When set, the domain may travel past the constraint and span limits, with this resistance (see `rubberBand`).
+   */
+  elasticity?: number;
 }) {
   if (zoomRatio === 1) return;
 
-  const [xRangeStart, xRangeEnd] = xScale.range();
-  const [yRangeEnd, yRangeStart] = yScale.range();
-  const rangeXSpan = xRangeEnd - xRangeStart;
-  const rangeYSpan = yRangeEnd - yRangeStart;
+  // The range (pixel) extent of the new domain: each edge moves away from (or towards) the center.
+  // This works in pixels, so it holds for any range origin (e.g. margins) and orientation.
+  const scaleAroundCenter = (scale: IScale, c: number): [number, number] => {
+    const [range0, range1] = scale.range().map((rangeVal) => c + ((rangeVal - c) * (2 - zoomRatio)));
+    return [toNumber(scale.invert(range0)), toNumber(scale.invert(range1))];
+  };
+
+  const [previousXDomain, previousYDomain] = getDomain({xScale, yScale});
+
+  const unclampedXDomain = scaleAroundCenter(xScale, center.x);
+  const unclampedYDomain = scaleAroundCenter(yScale, center.y);
+
+  // The constraint may write values of the scales (e.g. Dates) into these.
+  const [minXTransform, maxXTransform] = [minZoom, maxZoom].map((limits) => getSpanTransform(xScale, limits));
+  const [minYTransform, maxYTransform] = [minZoom, maxZoom].map((limits) => getSpanTransform(yScale, limits));
+  let newXDomain: (number | Date)[] = lockXAxis ?
+    [...previousXDomain] :
+    clampToMaxSpan(
+      maxZoom.xSpan,
+      previousXDomain,
+      clampToMinSpan(minZoom.xSpan, previousXDomain, unclampedXDomain, minXTransform),
+      maxXTransform,
+    );
+  let newYDomain: (number | Date)[] = lockYAxis ?
+    [...previousYDomain] :
+    clampToMaxSpan(
+      maxZoom.ySpan,
+      previousYDomain,
+      clampToMinSpan(minZoom.ySpan, previousYDomain, unclampedYDomain, minYTransform),
+      maxYTransform,
+    );
+
+  constrain({
+    xDomain: newXDomain,
+    yDomain: newYDomain,
+    constraint,
+    xScale,
+    yScale,
+  });
+
+  if (elasticity !== undefined) {
+    if (!lockXAxis) newXDomain = calcElasticDomain(xScale, unclampedXDomain, newXDomain, elasticity);
+    if (!lockYAxis) newYDomain = calcElasticDomain(yScale, unclampedYDomain, newYDomain, elasticity);
+  }
+
+  setScaleDomain(xScale, newXDomain);
+  setScaleDomain(yScale, newYDomain);
+}
+
+/**
+ * The range (pixel) position that a zoom is anchored at on the axis of `scale`,
+ * or `undefined` to zoom around `position` (the cursor), see `IZoomAnchor`.
+ */
+export function resolveZoomAnchor (
+  anchor: IZoomAnchor<number | Date> | undefined,
+  scale: IScale,
+  position: number,
+): number | undefined {
+  if (anchor === undefined || anchor === 'cursor') return undefined;
+  if (typeof anchor === 'function') return anchor({scale, position});
+  if (anchor === 'center') {
+    const [range0, range1] = scale.range();
+    return (range0 + range1) / 2;
+  }
+  if (anchor === 'min' || anchor === 'max') {
+    const domain = scale.domain().map(toNumber);
+    return scale(anchor === 'min' ? Math.min(...domain) : Math.max(...domain));
+  }
+  return scale(anchor.value);
+}
+
+/**
+ * The rubber-band function of scroll views: how far the view travels past a limit when pulled `overshoot` pixels past it.
+ * The result approaches `dimension` (the size of the view) as the overshoot grows.
+ * A lower `resistance` makes the view travel less. The iOS default is `0.55`.
+ */
+export function rubberBand (
+  overshoot: number,
+  dimension: number,
+  resistance: number,
+): number {
+  if (overshoot === 0 || dimension === 0) return 0;
+  const travel = (1 - (1 / ((Math.abs(overshoot) * resistance / dimension) + 1))) * dimension;
+  return Math.sign(overshoot) * travel;
+}
+
+/**
+ * Calculate the domain in between the `unclamped` domain that was asked for and the `clamped` legal domain,
+ * where each edge is pulled past the legal edge according to `rubberBand`.
+ * The calculation is done in the range (pixel) space of the given scale.
+ */
+export function calcElasticDomain (
+  scale: IScale,
+  unclamped: (number | Date)[],
+  clamped: (number | Date)[],
+  resistance: number,
+): number[] {
+  const [range0, range1] = scale.range();
+  const dimension = Math.abs(range1 - range0);
+  const [unclamped0, unclamped1] = unclamped.map(scale);
+  const [clamped0, clamped1] = clamped.map(scale);
+  return [
+    clamped0 + rubberBand(unclamped0 - clamped0, dimension, resistance),
+    clamped1 + rubberBand(unclamped1 - clamped1, dimension, resistance),
+  ].map((rangeVal) => toNumber(scale.invert(rangeVal)));
+}
+
+/**
+ * Read the current domains of the given scales as an `IDomain` of numbers (Dates become milliseconds).
+ */
+export function getDomain ({
+  xScale,
+  yScale,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+}): IDomain {
+  const [x0, x1] = xScale.domain().map(toNumber);
+  const [y0, y1] = yScale.domain().map(toNumber);
+  return [[x0, x1], [y0, y1]];
+}
 
-  const xReduce = (1 - zoomRatio) * rangeXSpan;
-  const yReduce = (1 - zoomRatio) * rangeYSpan;
-  const rX = center.x / rangeXSpan;
-  const rY = center.y / rangeYSpan;
+/**
+ * Whether the domain of the scale holds Dates, as with `scaleTime` and `scaleUtc`.
+ */
+export function isTimeScale (
+  scale: IScale,
+): scale is IScale<Date> {
+  return scale.domain()[0] instanceof Date;
+}
 
-  const newXRangeStart = xRangeStart - (xReduce * rX);
-  const newXRangeEnd   = xRangeEnd   + (xReduce * (1 - rX));
-  const newYRangeStart = yRangeStart - (yReduce * rY);
-  const newYRangeEnd   = yRangeEnd   + (yReduce * (1 - rY));
+/**
+ * Convert a domain value to a number. Dates become milliseconds.
+ */
+export function toNumber (
+  value: number | Date,
+): number {
+  return value instanceof Date ? value.getTime() : value;
+}
 
-  const previousXDomain = xScale.domain() as [number, number];
-  const previousYDomain = yScale.domain() as [number, number];
+/**
+ * Convert a domain value to the type of the values of the scale: a Date for time scales, a number otherwise.
+ */
+export function toScaleValue <TDomain extends number | Date> (
+  scale: IScale<TDomain>,
+  value: number | Date,
+): TDomain {
+  // The type guard can't narrow the type parameter, hence the assertion.
+  return (isTimeScale(scale) ? new Date(value) : toNumber(value)) as TDomain;
+}
+
+/**
+ * Convert a domain of numbers (or of mixed values) to the type of the values of the given scales:
+ * Dates for time scales, numbers otherwise.
+ */
+export function toScaleDomain <TX extends number | Date, TY extends number | Date> (
+  {
+    xScale,
+    yScale,
+  }: {
+    xScale: IScale<TX>;
+    yScale: IScale<TY>;
+  },
+  [[x0, x1], [y0, y1]]: IDomain<number | Date, number | Date>,
+): IDomain<TX, TY> {
+  return [
+    [toScaleValue(xScale, x0), toScaleValue(xScale, x1)],
+    [toScaleValue(yScale, y0), toScaleValue(yScale, y1)],
+  ];
+}
+
+/**
+ * Convert a domain with Dates (or of mixed values) to a domain of numbers. Dates become milliseconds.
+ */
+export function toNumericDomain (
+  [[x0, x1], [y0, y1]]: IDomain<number | Date, number | Date>,
+): IDomain {
+  return [[toNumber(x0), toNumber(x1)], [toNumber(y0), toNumber(y1)]];
+}
 
-  let newXDomain = [newXRangeStart, newXRangeEnd].map((rangeVal) => xScale.invert(rangeVal)) as [number, number];
-  let newYDomain = [newYRangeEnd, newYRangeStart].map((rangeVal) => yScale.invert(rangeVal)) as [number, number];
+/**
+ * Set the domain of the scale. The values are converted to the type the scale holds, so time scales keep Date domains.
+ */
+export function setScaleDomain (
+  scale: IScale,
+  domain: readonly (number | Date)[],
+): void {
+  scale.domain(isTimeScale(scale) ?
+    domain.map((value) => new Date(value)) :
+    domain.map(toNumber));
+}
 
-  newXDomain = clampToMaxSpan(maxXSpan, previousXDomain, clampToMinSpan(minXSpan, previousXDomain, newXDomain));
-  newYDomain = clampToMaxSpan(maxYSpan, previousYDomain, clampToMinSpan(minYSpan, previousYDomain, newYDomain));
+/**
+ * Whether two domains are the same, give or take floating-point error.
+ */
+export function isSameDomain (
+  a: IDomain<number | Date, number | Date>,
+  b: IDomain<number | Date, number | Date>,
+): boolean {
+  const [aX, aY] = toNumericDomain(a);
+  const [bX, bY] = toNumericDomain(b);
+  const isSame = (a: readonly [number, number], b: readonly [number, number]) => {
+    const epsilon = Math.abs(a[1] - a[0]) * 1e-9;
+    return Math.abs(a[0] - b[0]) <= epsilon && Math.abs(a[1] - b[1]) <= epsilon;
+  };
+  return isSame(aX, bX) && isSame(aY, bY);
+}
 
-  if (lockXAxis) newXDomain = previousXDomain;
-  if (lockYAxis) newYDomain = previousYDomain;
+/**
+ * Set the domains of the given `xScale` and `yScale` to the given domain,
+ * applying the same span limits, axis locks and constraint as a gesture would.
+ */
+export function applyDomain ({
+  xScale,
+  yScale,
+  domain: [xDomain, yDomain],
+  constraint,
+  lockXAxis,
+  lockYAxis,
+  minZoom = {},
+  maxZoom = {},
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  domain: IDomain<number | Date, number | Date>;
+  constraint: IConstraint<number | Date> | undefined;
+  lockXAxis: boolean;
+  lockYAxis: boolean;
+  minZoom: ISpanLimits | undefined;
+  maxZoom: ISpanLimits | undefined;
+}): void {
+  const newXDomain = lockXAxis ? xScale.domain() : limitSpan(xScale, xDomain, 'x', minZoom, maxZoom);
+  const newYDomain = lockYAxis ? yScale.domain() : limitSpan(yScale, yDomain, 'y', minZoom, maxZoom);
 
   constrain({
     xDomain: newXDomain,
@@ -138,8 +358,317 @@ export function zoom ({
     yScale,
   });
 
-  xScale.domain(newXDomain);
-  yScale.domain(newYDomain);
+  setScaleDomain(xScale, newXDomain);
+  setScaleDomain(yScale, newYDomain);
+}
+
+/**
+ * Calculate the domain that results from moving the view of the given scales.
+ * In `'range'` units, positive `dx`/`dy` move the view right/down on the screen (by that many pixels).
+ * In `'domain'` units, positive `dx`/`dy` move the view towards larger domain values.
+ */
+export function calcPannedDomain ({
+  xScale,
+  yScale,
+  dx,
+  dy,
+  units,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  dx: number;
+  dy: number;
+  units: 'range' | 'domain';
+}): IDomain {
+  const [[x0, x1], [y0, y1]] = getDomain({xScale, yScale});
+  if (units === 'domain') {
+    return [[x0 + dx, x1 + dx], [y0 + dy, y1 + dy]];
+  }
+  const [xRange0, xRange1] = xScale.range();
+  const [yRange0, yRange1] = yScale.range();
+  return [
+    [toNumber(xScale.invert(xRange0 + dx)), toNumber(xScale.invert(xRange1 + dx))],
+    [toNumber(yScale.invert(yRange0 + dy)), toNumber(yScale.invert(yRange1 + dy))],
+  ];
+}
+
+/**
+ * Convert a zoom factor (e.g. `2` to show half as much of the domain, `0.5` to show twice as much)
+ * into the `zoomRatio` expected by `zoom`.
+ */
+export function zoomFactorToRatio (
+  factor: number,
+): number {
+  return 2 - (1 / factor);
+}
+
+/**
+ * Calculate the domain that results from transforming the view in range (pixel) space:
+ * zooming by `kx`/`ky` around `center` (`k > 1` zooms in), then moving the view by `dx`/`dy` pixels.
+ */
+export function calcTransformedDomain ({
+  xScale,
+  yScale,
+  center,
+  kx = 1,
+  ky = 1,
+  dx = 0,
+  dy = 0,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  center: {x: number; y: number};
+  kx?: number;
+  ky?: number;
+  dx?: number;
+  dy?: number;
+}): IDomain {
+  const [xRange0, xRange1] = xScale.range();
+  const [yRange0, yRange1] = yScale.range();
+  const transformX = (rangeVal: number) => toNumber(xScale.invert(center.x + ((rangeVal - center.x) / kx) + dx));
+  const transformY = (rangeVal: number) => toNumber(yScale.invert(center.y + ((rangeVal - center.y) / ky) + dy));
+  return [
+    [transformX(xRange0), transformX(xRange1)],
+    [transformY(yRange0), transformY(yRange1)],
+  ];
+}
+
+/**
+ * Calculate how far (in pixels) the view of the given scales can move in each screen direction before reaching the constraint.
+ * Unconstrained directions are `Infinity`.
+ */
+export function calcDistancesToConstraint ({
+  xScale,
+  yScale,
+  constraint,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  constraint: IConstraint<number | Date> | undefined;
+}): {left: number; right: number; up: number; down: number} {
+  const distances = (scale: IScale, min: number | Date | undefined, max: number | Date | undefined) => {
+    const range = scale.range();
+    const viewMin = Math.min(...range);
+    const viewMax = Math.max(...range);
+    const [d0, d1] = scale.domain().map(toNumber);
+    const [r0, r1] = scale.range();
+    // Depending on the orientation of the scale, either end of the constraint may be at the low pixel value.
+    const ascending = (r1 - r0) * (d1 - d0) >= 0;
+    const [lowBound, highBound] = ascending ? [min, max] : [max, min];
+    return {
+      toLow: lowBound === undefined ? Infinity : Math.max(0, viewMin - scale(lowBound)),
+      toHigh: highBound === undefined ? Infinity : Math.max(0, scale(highBound) - viewMax),
+    };
+  };
+  const x = distances(xScale, constraint?.xMin, constraint?.xMax);
+  const y = distances(yScale, constraint?.yMin, constraint?.yMax);
+  return {
+    left: x.toLow,
+    right: x.toHigh,
+    up: y.toLow,
+    down: y.toHigh,
+  };
+}
+
+/** Which edges of the constraint the view is against, see `calcConstraintEdges`. */
+export interface IConstraintEdges {
+  atXMin: boolean;
+  atXMax: boolean;
+  atYMin: boolean;
+  atYMax: boolean;
+}
+
+/**
+ * Calculate which edges of the constraint the view of the given scales is against (or beyond, when elastic),
+ * whatever the orientation of the scales (see `calcDistancesToConstraint`).
+ */
+export function calcConstraintEdges ({
+  xScale,
+  yScale,
+  constraint,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  constraint: IConstraint<number | Date> | undefined;
+}): IConstraintEdges {
+  const distances = calcDistancesToConstraint({xScale, yScale, constraint});
+  // Whether the min of the domain is at the low end of the range, e.g. on the left.
+  const isMinLow = (scale: IScale) => {
+    const [d0, d1] = scale.domain().map(toNumber);
+    const [r0, r1] = scale.range();
+    return (r1 - r0) * (d1 - d0) >= 0;
+  };
+  const isAt = (distance: number) => distance <= 1e-6;
+  const [xToMin, xToMax] = isMinLow(xScale) ? [distances.left, distances.right] : [distances.right, distances.left];
+  const [yToMin, yToMax] = isMinLow(yScale) ? [distances.up, distances.down] : [distances.down, distances.up];
+  return {
+    atXMin: isAt(xToMin),
+    atXMax: isAt(xToMax),
+    atYMin: isAt(yToMin),
+    atYMax: isAt(yToMax),
+  };
+}
+
+/** Which span limit each axis is at, see `calcSpanLimitState`. */
+export interface ISpanLimitState {
+  x: 'minZoom' | 'maxZoom' | undefined;
+  y: 'minZoom' | 'maxZoom' | undefined;
+}
+
+/**
+ * Calculate which span limit (`minZoom` or `maxZoom`) the domain of each of the given scales is at (or beyond, when elastic),
+ * measured in the units of the limit, ignoring float noise.
+ */
+export function calcSpanLimitState ({
+  xScale,
+  yScale,
+  minZoom,
+  maxZoom,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  minZoom: ISpanLimits | undefined;
+  maxZoom: ISpanLimits | undefined;
+}): ISpanLimitState {
+  const limitOf = (scale: IScale, key: 'xSpan' | 'ySpan') => {
+    const measure = (limits: ISpanLimits) => {
+      const transform = getSpanTransform(scale, limits);
+      const [d0, d1] = scale.domain().map((value) => transform.forward(toNumber(value)));
+      return Math.abs(d1 - d0);
+    };
+    const minSpan = minZoom?.[key];
+    if (minZoom && minSpan !== undefined && measure(minZoom) <= minSpan * (1 + 1e-6)) return 'minZoom';
+    const maxSpan = maxZoom?.[key];
+    if (maxZoom && maxSpan !== undefined && measure(maxZoom) >= maxSpan * (1 - 1e-6)) return 'maxZoom';
+    return undefined;
+  };
+  return {
+    x: limitOf(xScale, 'xSpan'),
+    y: limitOf(yScale, 'ySpan'),
+  };
+}
+
+/** Whether the view can zoom in and out, and which edges of the constraint it is against, see `calcZoomState`. */
+export interface IZoomState extends IConstraintEdges {
+  canZoomIn: boolean;
+  canZoomOut: boolean;
+}
+
+/**
+ * Calculate whether zooming by `factor` (in) or `1 / factor` (out) around the center of the view would change it,
+ * by zooming copies of the scales within the constraint, span limits and axis locks like `zoom`,
+ * and whether the view is against each edge of the constraint (see `calcConstraintEdges`).
+ * Pass the `anchor` option of the controller to zoom around its anchors instead of the center, like `zoomBy`.
+ */
+export function calcZoomState ({
+  xScale,
+  yScale,
+  factor,
+  anchor,
+  constraint,
+  lockXAxis,
+  lockYAxis,
+  minZoom,
+  maxZoom,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  factor: number;
+  anchor?: {x?: IZoomAnchor<number | Date>; y?: IZoomAnchor<number | Date>};
+  constraint: IConstraint<number | Date> | undefined;
+  lockXAxis: boolean;
+  lockYAxis: boolean;
+  minZoom: ISpanLimits | undefined;
+  maxZoom: ISpanLimits | undefined;
+}): IZoomState {
+  const [previousXDomain, previousYDomain] = getDomain({xScale, yScale});
+  // The relative change of the spans of the domains, ignoring float noise.
+  const calcSpanChange = (zoomFactor: number) => {
+    const zoomedXScale = xScale.copy();
+    const zoomedYScale = yScale.copy();
+    const [xRange0, xRange1] = xScale.range();
+    const [yRange0, yRange1] = yScale.range();
+    const xCenter = (xRange0 + xRange1) / 2;
+    const yCenter = (yRange0 + yRange1) / 2;
+    zoom({
+      xScale: zoomedXScale,
+      yScale: zoomedYScale,
+      center: {
+        x: resolveZoomAnchor(anchor?.x, xScale, xCenter) ?? xCenter,
+        y: resolveZoomAnchor(anchor?.y, yScale, yCenter) ?? yCenter,
+      },
+      zoomRatio: zoomFactorToRatio(zoomFactor),
+      constraint,
+      lockXAxis,
+      lockYAxis,
+      minZoom,
+      maxZoom,
+    });
+    const [xDomain, yDomain] = getDomain({xScale: zoomedXScale, yScale: zoomedYScale});
+    const change = ([d0, d1]: readonly [number, number], [prev0, prev1]: readonly [number, number]) => {
+      const ratio = Math.abs(d1 - d0) / Math.abs(prev1 - prev0);
+      return Math.abs(ratio - 1) <= 1e-9 ? 0 : ratio - 1;
+    };
+    return [change(xDomain, previousXDomain), change(yDomain, previousYDomain)];
+  };
+  const zoomIn = calcSpanChange(factor);
+  const zoomOut = calcSpanChange(1 / factor);
+
+  return {
+    canZoomIn: zoomIn.some((change) => change < 0),
+    canZoomOut: zoomOut.some((change) => change > 0),
+    ...calcConstraintEdges({xScale, yScale, constraint}),
+  };
+}
+
+/**
+ * Calculate the rectangle of a box zoom dragged from `start` to `end` (positions relative to the chart element).
+ * With `axis: 'x'` (or `'y'`), the box spans the whole height (or width) of the view, to select a band.
+ * With `preserveAspectRatio`, the box grows from `start` until it has the aspect ratio of the view.
+ */
+export function calcZoomBox ({
+  xScale,
+  yScale,
+  start,
+  end,
+  axis = 'xy',
+  preserveAspectRatio = false,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  start: {x: number; y: number};
+  end: {x: number; y: number};
+  axis?: 'x' | 'y' | 'xy';
+  preserveAspectRatio?: boolean;
+}): IZoomBox {
+  const [xRange0, xRange1] = xScale.range();
+  const [yRange0, yRange1] = yScale.range();
+  let dx = end.x - start.x;
+  let dy = end.y - start.y;
+  if (preserveAspectRatio && axis === 'xy') {
+    const aspect = Math.abs((xRange1 - xRange0) / (yRange1 - yRange0));
+    if (Math.abs(dx) < Math.abs(dy) * aspect) {
+      dx = (Math.sign(dx) || 1) * Math.abs(dy) * aspect;
+    } else {
+      dy = (Math.sign(dy) || 1) * Math.abs(dx) / aspect;
+    }
+  }
+  const [xMin, xMax] = axis === 'y' ?
+    [Math.min(xRange0, xRange1), Math.max(xRange0, xRange1)] :
+    [Math.min(start.x, start.x + dx), Math.max(start.x, start.x + dx)];
+  const [yMin, yMax] = axis === 'x' ?
+    [Math.min(yRange0, yRange1), Math.max(yRange0, yRange1)] :
+    [Math.min(start.y, start.y + dy), Math.max(start.y, start.y + dy)];
+  // Keep the orientation of each domain: the range end of the box that is nearest to the range start comes first.
+  const toDomain = (scale: IScale, min: number, max: number): [number, number] => {
+    const [r0, r1] = scale.range();
+    const [first, last] = r0 <= r1 ? [min, max] : [max, min];
+    return [toNumber(scale.invert(first)), toNumber(scale.invert(last))];
+  };
+  return {
+    range: [[xMin, xMax], [yMin, yMax]],
+    domain: [toDomain(xScale, xMin, xMax), toDomain(yScale, yMin, yMax)],
+  };
 }
 
 export function constrain ({
@@ -151,100 +680,69 @@ export function constrain ({
 }: {
   xDomain: (number | Date)[];
   yDomain: (number | Date)[];
-  constraint: Partial<IBBox> | undefined;
+  constraint: IConstraint<number | Date> | undefined;
   xScale: IScale;
   yScale: IScale;
 }) {
   // If there is no constraint, do nothing.
   if (!domainConstraint) return;
 
+  constrainAxis(xDomain, xScale, domainConstraint.xMin, domainConstraint.xMax);
+  constrainAxis(yDomain, yScale, domainConstraint.yMin, domainConstraint.yMax);
+}
+
+/**
+ * Move (or, if it is too large, shrink) the domain of one axis into the constraint, in place.
+ * The domain may be ascending or descending, and the range may have any origin and orientation.
+ */
+function constrainAxis (
+  domain: (number | Date)[],
+  scale: IScale,
+  min: number | Date | undefined,
+  max: number | Date | undefined,
+): void {
   // We must do these calculations in range values,
   // because the domain is non-linear, but the mouse movements are linear,
   // and we can't easily adjust a domain that has been panned past the constraint edge,
   // because while we may know the distance past in domain values,
   // we can't simply subtract that value from both edges, because it's non-linear. This is pixel logic.
-  const newXRange = xDomain.map(xScale);
-  const newYRange = yDomain.map(yScale);
-  const rangeConstraint = {
-    xMin: domainConstraint.xMin === undefined ? -Infinity : xScale(domainConstraint.xMin),
-    xMax: domainConstraint.xMax === undefined ? +Infinity : xScale(domainConstraint.xMax),
-    yMax /* flipped */: domainConstraint.yMin === undefined ? -Infinity : yScale(domainConstraint.yMin),
-    yMin /* flipped */: domainConstraint.yMax === undefined ? +Infinity : yScale(domainConstraint.yMax),
-  };
-  const {xMin, xMax, yMin, yMax} = rangeConstraint;
-
-  const rangeConstraintWidth = xMax - xMin;
-  const rangeConstraintHeight = yMax - yMin;
-
-  const leftIsOut  = newXRange[0] < xMin;
-  const rightIsOut = newXRange[1] > xMax;
-  const topIsOut    = newYRange[1] < yMin;
-  const bottomIsOut = newYRange[0] > yMax;
-
-  const prevXRange = xScale.range() as [number, number];
-  const prevXRangeWidth = prevXRange[1] - prevXRange[0];
-  const prevYRange = yScale.range() as [number, number];
-  const prevYRangeHeight = prevYRange[0] - prevYRange[1];
-
-  const newRangeWidth  = newXRange[1] - newXRange[0];
-  const newRangeHeight = newYRange[0] - newYRange[1];
-  // The constraining should not change the domain width when panning,
-  // but when zooming, it may be clamped if the domain becomes larger than the constraint extent.
-  if (newRangeWidth >= rangeConstraintWidth) {
+  const [newRange0, newRange1] = domain.map(scale);
+  const [prevRange0, prevRange1] = scale.range();
+  const [prevDomain0, prevDomain1] = scale.domain().map(toNumber);
+  // Whether larger domain values are at larger range values, i.e. which end of the constraint is at the low range end.
+  const ascending = (prevRange1 - prevRange0) * (prevDomain1 - prevDomain0) >= 0;
+  const [lowBound, highBound] = ascending ? [min, max] : [max, min];
+  const low = lowBound === undefined ? -Infinity : scale(lowBound);
+  const high = highBound === undefined ? Infinity : scale(highBound);
+
+  // The new view, from its low to its high range end.
+  const viewLow = Math.min(newRange0, newRange1);
+  const viewHigh = Math.max(newRange0, newRange1);
+  const viewWidth = viewHigh - viewLow;
+
+  let constrainedLow: number;
+  let constrainedHigh: number;
+  if (viewWidth >= high - low) {
     // In this case, the new domain is larger than the constraint width, whether it's actually out
     // on both sides or not (doesn't matter). We can just clamp both edges to the constraint.
-    xDomain[0] = Number(xScale.invert(xMin));
-    xDomain[1] = Number(xScale.invert(xMax));
-  } else if (newRangeWidth !== prevXRangeWidth) {
-    // The zooming case
-    // When zooming at the edge, the zoom target will shift.
-    if (leftIsOut) {
-      xDomain[0] = Number(xScale.invert(xMin));
-      xDomain[1] = Number(xScale.invert(xMin + newRangeWidth));
-    }
-    if (rightIsOut) {
-      xDomain[0] = Number(xScale.invert(xMax - newRangeWidth));
-      xDomain[1] = Number(xScale.invert(xMax));
-    }
+    // So when zooming, the domain may be clamped if it becomes larger than the constraint extent.
+    constrainedLow = low;
+    constrainedHigh = high;
+  } else if (viewLow < low) {
+    // Otherwise, the new domain is smaller than the constraint, so it cannot be out on both sides at once.
+    // Moving it back keeps its width, for pans and zooms alike: when zooming at the edge, the zoom target will shift.
+    constrainedLow = low;
+    constrainedHigh = low + viewWidth;
+  } else if (viewHigh > high) {
+    constrainedLow = high - viewWidth;
+    constrainedHigh = high;
   } else {
-    // Otherwise, the new domain is smaller than the constraint. Since it's smaller, it cannot be out on both sides at once.
-    // We preserve the previous width for pans but not for zooms.
-    if (leftIsOut) {
-      xDomain[0] = Number(xScale.invert(xMin));
-      xDomain[1] = Number(xScale.invert(xMin + prevXRangeWidth));
-    }
-    if (rightIsOut) {
-      xDomain[0] = Number(xScale.invert(xMax - prevXRangeWidth));
-      xDomain[1] = Number(xScale.invert(xMax));
-    }
-  }
-  // Again for the Y axis
-  if (newRangeHeight >= rangeConstraintHeight) {
-    yDomain[1] = Number(yScale.invert(yMin));
-    yDomain[0] = Number(yScale.invert(yMax));
-  } else if (newRangeHeight !== prevYRangeHeight) {
-    // The zooming case
-    // When zooming at the edge, the zoom target will shift.
-    if (topIsOut) {
-      yDomain[1] = Number(yScale.invert(yMin));
-      yDomain[0] = Number(yScale.invert(yMin + newRangeHeight));
-    }
-    if (bottomIsOut) {
-      yDomain[1] = Number(yScale.invert(yMax - newRangeHeight));
-      yDomain[0] = Number(yScale.invert(yMax));
-    }
-  } else {
-    // Otherwise, the new domain is smaller than the constraint. Since it's smaller, it cannot be out on both sides at once.
-    // We preserve the previous width for pans but not for zooms.
-    if (topIsOut) {
-      yDomain[1] = Number(yScale.invert(yMin));
-      yDomain[0] = Number(yScale.invert(yMin + prevYRangeHeight));
-    }
-    if (bottomIsOut) {
-      yDomain[1] = Number(yScale.invert(yMax - prevYRangeHeight));
-      yDomain[0] = Number(yScale.invert(yMax));
-    }
+    return;
   }
+  // Write back the ends of the domain, keeping its order.
+  const [range0, range1] = newRange0 <= newRange1 ? [constrainedLow, constrainedHigh] : [constrainedHigh, constrainedLow];
+  domain[0] = scale.invert(range0);
+  domain[1] = scale.invert(range1);
 }
 
 /**
@@ -390,6 +888,60 @@ export function calcBbox (
   };
 }
 
+/** The fields of a `WheelEvent` that are needed to interpret it. */
+export interface IWheelInput {
+  deltaX?: number;
+  deltaY: number;
+  deltaMode: number;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  shiftKey?: boolean;
+}
+
+/**
+ * Guess which device produced a wheel event:
+ *   - `'pinch'` — a trackpad pinch, which browsers report as small pixel deltas with `ctrlKey`.
+ *   - `'trackpad'` — a trackpad swipe: small or horizontal pixel deltas.
+ *   - `'wheel'` — a mouse wheel: line or page deltas, or large pixel steps.
+ * This is a heuristic: e.g. free-spinning mouse wheels can look like trackpads.
+ */
+export function classifyWheel ({
+  deltaX = 0,
+  deltaY,
+  deltaMode,
+  ctrlKey = false,
+}: IWheelInput): 'wheel' | 'trackpad' | 'pinch' {
+  if (deltaMode !== 0) return 'wheel';
+  const isSmall = Math.abs(deltaY) < 50;
+  if (ctrlKey && isSmall) return 'pinch';
+  if (deltaX !== 0 || isSmall) return 'trackpad';
+  return 'wheel';
+}
+
+/**
+ * Convert a wheel delta to pixels. A line is 16px, and a page is `pageSize` pixels.
+ */
+export function normalizeWheelPan ({
+  delta,
+  deltaMode,
+  pageSize,
+}: {
+  delta: number;
+  deltaMode: number;
+  pageSize: number;
+}): number {
+  return delta * (
+    deltaMode === 0 ?
+      // pixels
+      1 :
+      deltaMode === 1 ?
+        // lines
+        16 :
+        // pages
+        pageSize
+  );
+}
+
 export function normalizeWheelDelta ({
   delta,
   deltaMode,
@@ -415,71 +967,166 @@ export function normalizeWheelDelta ({
 }
 
 
+/**
+ * Maps domain values to the space where a scale is linear (`forward`), and back (`inverse`).
+ */
+export interface IScaleTransform {
+  forward: (value: number) => number;
+  inverse: (value: number) => number;
+}
+
+const identityTransform: IScaleTransform = {
+  forward: (value) => value,
+  inverse: (value) => value,
+};
+
+/**
+ * The transform of the given scale: logarithmic for log scales (in powers of the base), powered for pow scales,
+ * and `sign(value) * log1p(|value| / constant)` for symlog scales. Other scales are linear.
+ * The scales of `d3-scale` are told apart by their `base`, `exponent` and `constant` methods.
+ */
+export function getScaleTransform (
+  scale: IScale,
+): IScaleTransform {
+  const {base, exponent, constant} = scale as IScale & {
+    base?: () => number;
+    exponent?: () => number;
+    constant?: () => number;
+  };
+  if (typeof base === 'function') {
+    // Like log scales, negative domains are mirrored.
+    const logBase = Math.log(base());
+    const sign = toNumber(scale.domain()[0]) < 0 ? -1 : 1;
+    return {
+      forward: (value) => sign * Math.log(sign * value) / logBase,
+      inverse: (value) => sign * Math.exp(sign * value * logBase),
+    };
+  }
+  if (typeof exponent === 'function') {
+    const k = exponent();
+    return {
+      forward: (value) => Math.sign(value) * Math.pow(Math.abs(value), k),
+      inverse: (value) => Math.sign(value) * Math.pow(Math.abs(value), 1 / k),
+    };
+  }
+  if (typeof constant === 'function') {
+    const c = constant();
+    return {
+      forward: (value) => Math.sign(value) * Math.log1p(Math.abs(value / c)),
+      inverse: (value) => Math.sign(value) * Math.expm1(Math.abs(value)) * c,
+    };
+  }
+  return identityTransform;
+}
+
+/**
+ * The transform that the spans of the given limits are measured in (see `ISpanLimits.units`).
+ */
+export function getSpanTransform (
+  scale: IScale,
+  limits: ISpanLimits | undefined,
+): IScaleTransform {
+  return limits?.units === 'transformed' ? getScaleTransform(scale) : identityTransform;
+}
+
 export function clampToMaxSpan (
   maxDomainSpan: number | undefined,
-  previousDomain: [number, number],
+  previousDomain: readonly [number, number],
   domain: [number, number],
+  transform: IScaleTransform = identityTransform,
 ): [number, number] {
   if (maxDomainSpan === undefined) return domain;
-  const [d0, d1] = domain;
-  const dWidth = d1 - d0;
+  const [d0, d1] = domain.map(transform.forward);
+  const dWidth = Math.abs(d1 - d0);
   if (dWidth <= maxDomainSpan) return domain;
-  return clampToSpan(maxDomainSpan, previousDomain, domain);
+  return clampToSpan(maxDomainSpan, previousDomain, domain, transform);
 }
 
 export function clampToMinSpan (
   minDomainSpan: number | undefined,
-  previousDomain: [number, number],
+  previousDomain: readonly [number, number],
   domain: [number, number],
+  transform: IScaleTransform = identityTransform,
 ): [number, number] {
   if (minDomainSpan === undefined) return domain;
-  const [d0, d1] = domain;
-  const dWidth = d1 - d0;
+  const [d0, d1] = domain.map(transform.forward);
+  const dWidth = Math.abs(d1 - d0);
   if (dWidth >= minDomainSpan) return domain;
-  return clampToSpan(minDomainSpan, previousDomain, domain);
+  return clampToSpan(minDomainSpan, previousDomain, domain, transform);
 }
 
+/**
+ * Resize the domain to the span, following the zoom from the previous domain:
+ * the point that stays still in the zoom stays still in the resize, too.
+ * With a `transform`, the span is measured (and the resize is done) in the transformed space.
+ * Descending domains stay descending.
+ */
 export function clampToSpan (
   span: number,
-  previousDomain: [number, number],
+  previousDomain: readonly [number, number],
   domain: [number, number],
+  transform: IScaleTransform = identityTransform,
 ): [number, number] {
-  const [d0, d1] = domain;
+  const [d0, d1] = domain.map(transform.forward);
   const dWidth = d1 - d0;
-  const [p0, p1] = previousDomain;
+  const [p0, p1] = previousDomain.map(transform.forward);
   const pWidth = p1 - p0;
+  // The widths are signed, so the span takes the direction of the domain.
+  const signedSpan = (Math.sign(dWidth) || 1) * span;
   // x is the width, y is the left side of the domain.
   const {m, b} = calcMB([pWidth, p0], [dWidth, d0]);
   // y = mx + b
-  const clamped0 = (m * span) + b;
-  const clamped1 = clamped0 + span;
-  return [clamped0, clamped1];
+  const clamped0 = (m * signedSpan) + b;
+  const clamped1 = clamped0 + signedSpan;
+  return [transform.inverse(clamped0), transform.inverse(clamped1)];
 }
 
 export function increaseToSpan (
   minDomainSpan: number | undefined,
   domain: (number | Date)[],
+  transform: IScaleTransform = identityTransform,
 ): (number | Date)[] {
   if (minDomainSpan === undefined) return domain;
-  const [d0, d1] = domain.map(Number);
-  const dWidth = d1 - d0;
+  const [d0, d1] = domain.map((value) => transform.forward(Number(value)));
+  const dWidth = Math.abs(d1 - d0);
   // We only need to increase the width if it's less than the min width. So if it's greater than or equal, return.
   if (dWidth >= minDomainSpan) return domain;
-  const diffHalf = (minDomainSpan - dWidth) / 2;
-  return [d0 - diffHalf, d1 + diffHalf];
+  // Grow outwards, whether the domain is ascending or descending.
+  const diffHalf = (d1 < d0 ? -1 : 1) * (minDomainSpan - dWidth) / 2;
+  return [transform.inverse(d0 - diffHalf), transform.inverse(d1 + diffHalf)];
 }
 
 export function decreaseToSpan (
   maxDomainSpan: number | undefined,
   domain: (number | Date)[],
+  transform: IScaleTransform = identityTransform,
 ): (number | Date)[] {
   if (maxDomainSpan === undefined) return domain;
-  const [d0, d1] = domain.map(Number);
-  const dWidth = d1 - d0;
+  const [d0, d1] = domain.map((value) => transform.forward(Number(value)));
+  const dWidth = Math.abs(d1 - d0);
   // We only need to decrease the width if it's greater than the max width. So if it's less than or equal, return.
   if (dWidth <= maxDomainSpan) return domain;
-  const diffHalf = (dWidth - maxDomainSpan) / 2;
-  return [d0 + diffHalf, d1 - diffHalf];
+  // Shrink inwards, whether the domain is ascending or descending.
+  const diffHalf = (d1 < d0 ? -1 : 1) * (dWidth - maxDomainSpan) / 2;
+  return [transform.inverse(d0 + diffHalf), transform.inverse(d1 - diffHalf)];
+}
+
+/**
+ * Grow or shrink the domain around its center (in the space of the span limits) to within the span limits.
+ */
+function limitSpan (
+  scale: IScale,
+  domain: readonly (number | Date)[],
+  axis: 'x' | 'y',
+  minZoom: ISpanLimits,
+  maxZoom: ISpanLimits,
+): (number | Date)[] {
+  const key = axis === 'x' ? 'xSpan' : 'ySpan';
+  return increaseToSpan(
+    minZoom[key],
+    decreaseToSpan(maxZoom[key], [...domain], getSpanTransform(scale, maxZoom)),
+    getSpanTransform(scale, minZoom),
+  );
 }
 
 
@@ -0,0 +1,146 @@
+import type { IDomain, IScale } from './types';
+
+/** Separates the values (and the leading version tag, if any) of a serialized view. */
+const SEPARATOR = '_';
+/** Marks a time (Date) value of a serialized view. Its milliseconds follow in base 36. */
+const TIME_PREFIX = 't';
+/** The date and time formats of `Date.prototype.toISOString`, optionally without the time, seconds or zone. */
+const ISO_DATE = /^([+-]\d{6}|\d{4})-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/** The JSON form of a view. The values of time scales are ISO date strings. */
+export interface IViewJSON {
+  version?: string;
+  domain: readonly [
+    xDomain: readonly [number | string, number | string],
+    yDomain: readonly [number | string, number | string],
+  ];
+}
+
+
+/**
+ * Serialize the current domains of the scales to a compact, URL-safe string, e.g. `0_100_-5.5_5.5`.
+ * The values of time scales are written as milliseconds in base 36, and the optional `version` tag comes first.
+ * The `version` must not contain `_`.
+ */
+export function serializeView (
+  {
+    xScale,
+    yScale,
+  }: {
+    xScale: IScale;
+    yScale: IScale;
+  },
+  {
+    version,
+  }: {
+    version?: string;
+  } = {},
+): string {
+  const encode = (value: number | Date) => (
+    value instanceof Date ?
+      TIME_PREFIX + value.getTime().toString(36) :
+      String(value)
+  );
+  const values = [...xScale.domain(), ...yScale.domain()].map(encode);
+  return (version === undefined ? values : [version, ...values]).join(SEPARATOR);
+}
+
+/**
+ * Parse a string made by `serializeView`. Time values are returned as milliseconds, which time scales accept.
+ * Returns `undefined` if the string is malformed, has an empty span, or does not have the expected `version`.
+ *
+ * The result is not constrained: restore it with `setDomain`, which applies the constraint and span limits.
+ */
+export function parseView (
+  value: string,
+  {
+    version,
+  }: {
+    version?: string;
+  } = {},
+): IDomain | undefined {
+  const parts = value.split(SEPARATOR);
+  if (parts.length !== 4 && parts.length !== 5) return undefined;
+  const tag = parts.length === 5 ? parts.shift() : undefined;
+  if (tag !== version) return undefined;
+  const [x0, x1, y0, y1] = parts.map((part) => (
+    part.startsWith(TIME_PREFIX) ?
+      parseInt(part.slice(TIME_PREFIX.length), 36) :
+      // `Number('')` is 0, so empty parts are rejected explicitly.
+      part === '' ? NaN : Number(part)
+  ));
+  return validateDomain([[x0, x1], [y0, y1]]);
+}
+
+/**
+ * Convert the current domains of the scales to JSON, with the optional `version` tag.
+ */
+export function viewToJSON (
+  {
+    xScale,
+    yScale,
+  }: {
+    xScale: IScale;
+    yScale: IScale;
+  },
+  {
+    version,
+  }: {
+    version?: string;
+  } = {},
+): IViewJSON {
+  const encode = (value: number | Date) => (
+    value instanceof Date ?
+      value.toISOString() :
+      value
+  );
+  const [x0, x1] = xScale.domain().map(encode);
+  const [y0, y1] = yScale.domain().map(encode);
+  return {
+    ...(version === undefined ? {} : {version}),
+    domain: [[x0, x1], [y0, y1]],
+  };
+}
+
+/**
+ * Read a view from JSON (e.g. made by `viewToJSON`). Time values are returned as milliseconds, which time scales accept.
+ * Strings are only read as dates if they are ISO 8601 dates, like the ones `viewToJSON` writes.
+ * Returns `undefined` if the JSON is malformed, has an empty span, or does not have the expected `version`.
+ *
+ * The result is not constrained: restore it with `setDomain`, which applies the constraint and span limits.
+ */
+export function viewFromJSON (
+  json: unknown,
+  {
+    version,
+  }: {
+    version?: string;
+  } = {},
+): IDomain | undefined {
+  if (typeof json !== 'object' || json === null) return undefined;
+  const view = json as Partial<Record<keyof IViewJSON, unknown>>;
+  if (view.version !== version) return undefined;
+  const {domain} = view;
+  if (!Array.isArray(domain) || domain.length !== 2) return undefined;
+  const decode = (value: unknown) => (
+    typeof value === 'number' ?
+      value :
+      (typeof value === 'string' && ISO_DATE.test(value)) ?
+        Date.parse(value) :
+        NaN
+  );
+  const [xDomain, yDomain] = domain.map((axisDomain: unknown) => (
+    (Array.isArray(axisDomain) && axisDomain.length === 2) ?
+      axisDomain.map(decode) :
+      [NaN, NaN]
+  ));
+  return validateDomain([[xDomain[0], xDomain[1]], [yDomain[0], yDomain[1]]]);
+}
+
+/** Returns the domain if all of its values are finite and its spans are not empty, or else `undefined`. */
+function validateDomain (
+  domain: IDomain,
+): IDomain | undefined {
+  const isValid = domain.every(([d0, d1]) => Number.isFinite(d0) && Number.isFinite(d1) && d0 !== d1);
+  return isValid ? domain : undefined;
+}
@@ -0,0 +1,161 @@
+import type { IDomain, IScale } from './types';
+
+/** An easing function maps the normalized time `t` (`0..1`) to the normalized progress (usually `0..1`). */
+export type IEasing = (t: number) => number;
+
+export const easeLinear: IEasing = (t) => t;
+
+export const easeQuadInOut: IEasing = (t) => (
+  t < 0.5 ?
+    2 * t * t :
+    1 - (Math.pow(-2 * t + 2, 2) / 2)
+);
+
+export const easeCubicInOut: IEasing = (t) => (
+  t < 0.5 ?
+    4 * t * t * t :
+    1 - (Math.pow(-2 * t + 2, 3) / 2)
+);
+
+export const easeCubicOut: IEasing = (t) => 1 - Math.pow(1 - t, 3);
+
+
+/** A view in range (pixel) space: `[centerX, centerY, size]`. */
+export type IZoomView = readonly [cx: number, cy: number, size: number];
+
+const RHO = Math.SQRT2;
+const RHO2 = 2;
+const RHO4 = 4;
+const EPSILON2 = 1e-12;
+
+/**
+ * The "smooth and efficient zooming and panning" path of van Wijk and Nuij, as in `d3.interpolateZoom`.
+ * Returns an interpolator and the recommended `duration` in milliseconds, which is proportional to the length of the path.
+ */
+export function interpolateZoom (
+  [ux0, uy0, w0]: IZoomView,
+  [ux1, uy1, w1]: IZoomView,
+): {
+  interpolate: (t: number) => IZoomView;
+  duration: number;
+} {
+  const dx = ux1 - ux0;
+  const dy = uy1 - uy0;
+  const d2 = (dx * dx) + (dy * dy);
+
+  // Special case for u0 ≅ u1: the path is a pure zoom.
+  if (d2 < EPSILON2) {
+    const S = Math.log(w1 / w0) / RHO;
+    return {
+      interpolate: (t) => [
+        ux0 + (t * dx),
+        uy0 + (t * dy),
+        w0 * Math.exp(RHO * t * S),
+      ],
+      duration: Math.abs(S) * 1000 * RHO / Math.SQRT2,
+    };
+  }
+
+  // General case.
+  const d1 = Math.sqrt(d2);
+  const b0 = ((w1 * w1) - (w0 * w0) + (RHO4 * d2)) / (2 * w0 * RHO2 * d1);
+  const b1 = ((w1 * w1) - (w0 * w0) - (RHO4 * d2)) / (2 * w1 * RHO2 * d1);
+  const r0 = Math.log(Math.sqrt((b0 * b0) + 1) - b0);
+  const r1 = Math.log(Math.sqrt((b1 * b1) + 1) - b1);
+  const S = (r1 - r0) / RHO;
+  return {
+    interpolate: (t) => {
+      const s = t * S;
+      const coshr0 = Math.cosh(r0);
+      const u = w0 / (RHO2 * d1) * ((coshr0 * Math.tanh((RHO * s) + r0)) - Math.sinh(r0));
+      return [
+        ux0 + (u * dx),
+        uy0 + (u * dy),
+        w0 * coshr0 / Math.cosh((RHO * s) + r0),
+      ];
+    },
+    duration: S * 1000 * RHO / Math.SQRT2,
+  };
+}
+
+
+/**
+ * Create an interpolator between two domains.
+ * The interpolation happens in the range (pixel) space of the given scales, so that it looks even on non-linear scales.
+ * When `smooth` is set, the view follows the van Wijk zoom path (zooming out and back in when travelling far),
+ * and the recommended `duration` reflects the length of that path.
+ */
+export function interpolateDomain ({
+  xScale,
+  yScale,
+  from,
+  to,
+  smooth = false,
+}: {
+  xScale: IScale;
+  yScale: IScale;
+  from: IDomain;
+  to: IDomain;
+  smooth?: boolean;
+}): {
+  interpolate: (t: number) => IDomain;
+  duration: number | undefined;
+} {
+  const [fx0, fx1] = from[0].map(xScale);
+  const [fy0, fy1] = from[1].map(yScale);
+  const [tx0, tx1] = to[0].map(xScale);
+  const [ty0, ty1] = to[1].map(yScale);
+
+  const toDomain = (x0: number, x1: number, y0: number, y1: number): IDomain => [
+    [Number(xScale.invert(x0)), Number(xScale.invert(x1))],
+    [Number(yScale.invert(y0)), Number(yScale.invert(y1))],
+  ];
+
+  if (!smooth) {
+    const lerp = (a: number, b: number, t: number) => a + ((b - a) * t);
+    return {
+      interpolate: (t) => toDomain(
+        lerp(fx0, tx0, t),
+        lerp(fx1, tx1, t),
+        lerp(fy0, ty0, t),
+        lerp(fy1, ty1, t),
+      ),
+      duration: undefined,
+    };
+  }
+
+  // The zoom path works on a single size, so the view is described by the geometric mean of its width and height,
+  // plus an aspect ratio that is interpolated geometrically from start to end.
+  // The signs of the range spans are kept aside so that flipped (e.g. y) ranges stay flipped.
+  const fw = fx1 - fx0;
+  const fh = fy1 - fy0;
+  const tw = tx1 - tx0;
+  const th = ty1 - ty0;
+  const wSign = Math.sign(fw) || 1;
+  const hSign = Math.sign(fh) || 1;
+  const fromAspect = Math.abs(fw / fh);
+  const toAspect = Math.abs(tw / th);
+  const {interpolate, duration} = interpolateZoom(
+    [(fx0 + fx1) / 2, (fy0 + fy1) / 2, Math.sqrt(Math.abs(fw * fh))],
+    [(tx0 + tx1) / 2, (ty0 + ty1) / 2, Math.sqrt(Math.abs(tw * th))],
+  );
+  return {
+    interpolate: (t) => {
+      const [cx, cy, size] = interpolate(t);
+      const aspect = fromAspect * Math.pow(toAspect / fromAspect, t);
+      const halfWidth = wSign * size * Math.sqrt(aspect) / 2;
+      const halfHeight = hSign * size / Math.sqrt(aspect) / 2;
+      return toDomain(cx - halfWidth, cx + halfWidth, cy - halfHeight, cy + halfHeight);
+    },
+    duration,
+  };
+}
+
+/**
+ * Whether the user has asked the system to minimize non-essential motion.
+ * Always `false` where `matchMedia` is unavailable (e.g. in Node).
+ */
+export function prefersReducedMotion (): boolean {
+  if (typeof matchMedia !== 'function') return false;
+  return matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
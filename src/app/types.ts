@@ -1,9 +1,13 @@
 
 
-/** `[xDomain, yDomain]`, or `[[xDomainStart, xDomainEnd], [yDomainStart, yDomainEnd]]` */
-export type IDomain = readonly [
-  xDomain: readonly [xDomainStart: number, xDomainEnd: number],
-  yDomain: readonly [yDomainStart: number, yDomainEnd: number],
+/**
+ * `[xDomain, yDomain]`, or `[[xDomainStart, xDomainEnd], [yDomainStart, yDomainEnd]]`
+ *
+ * The values are numbers, or Dates for time scales (e.g. `IDomain<Date, number>` for a time x axis).
+ */
+export type IDomain <TX extends number | Date = number, TY extends number | Date = TX> = readonly [
+  xDomain: readonly [xDomainStart: TX, xDomainEnd: TX],
+  yDomain: readonly [yDomainStart: TY, yDomainEnd: TY],
 ];
 
 /** `[xRange, yRange]`, or `[[xRangeStart, xRangeEnd], [yRangeStart, yRangeEnd]]` */
@@ -13,11 +17,16 @@ export type IRange = readonly [
 ];
 
 
+/**
+ * A continuous scale, such as those of `d3-scale`.
+ * `TDomain` is the type of the values of its domain: `Date` for time scales, `number` otherwise.
+ * Like the scales of `d3-scale`, time scales also accept milliseconds.
+ */
 export interface IScale <TDomain extends number | Date = number | Date> {
-  (domainVal: TDomain): number;
+  (domainVal: number | Date): number;
   domain: {
     (): TDomain[];
-    (newDomain: TDomain[]): void;
+    (newDomain: (number | Date)[]): void;
   };
   range: {
     // eslint-disable-next-line @typescript-eslint/prefer-function-type
@@ -37,15 +46,61 @@ export interface IGesture {
     x: number;
     y: number;
   }>;
-  constraint: Partial<IBBox> | undefined;
+  constraint: IConstraint<number | Date> | undefined;
   lockXAxis: boolean;
   lockYAxis: boolean;
   preserveAspectRatio?: boolean;
-  minZoom: {xSpan?: number; ySpan?: number} | undefined;
-  maxZoom: {xSpan?: number; ySpan?: number} | undefined;
+  minZoom: ISpanLimits | undefined;
+  maxZoom: ISpanLimits | undefined;
   singleAxis: 'x' | 'y' | undefined;
 }
 
+/**
+ * The extent that the view is kept within. Each bound is optional.
+ * The values are numbers, or Dates for time scales.
+ */
+export interface IConstraint <TX extends number | Date = number, TY extends number | Date = TX> {
+  xMin?: TX;
+  xMax?: TX;
+  yMin?: TY;
+  yMax?: TY;
+}
+
+/**
+ * Limits of the spans of the domains, see the `minZoom` and `maxZoom` options.
+ */
+export interface ISpanLimits {
+  xSpan?: number;
+  ySpan?: number;
+  /**
+   * How the spans are measured:
+   *   - `'domain'` (the default) — in domain units, as `d1 - d0`. For time scales, in milliseconds.
+   *   - `'transformed'` — in the space where the scale is linear: in powers of the base for log scales
+   *     (e.g. decades for base 10), in powered values for pow scales, and in `log1p(|value| / constant)` for symlog scales.
+   *     For other scales, this is the same as `'domain'`.
+   */
+  units?: 'domain' | 'transformed';
+}
+
+/**
+ * Where a zoom is anchored on an axis: the position that stays put while the view zooms, see the `anchor` option.
+ *   - `'cursor'` (the default) — the pointer, the pinch or the wheel position (for programmatic zooms, the given center).
+ *   - `'center'` — the center of the view.
+ *   - `'min'`/`'max'` — the edge of the view with the smallest/largest domain value, e.g. `'max'` keeps "now" fixed on a time axis.
+ *   - `{value}` — a domain value, e.g. `{value: 0}`.
+ *   - A function of the scale and the cursor position, returning a range (pixel) position,
+ *     or `undefined` to follow the cursor.
+ *
+ * While pinching, an axis that isn't anchored to the cursor zooms around its anchor and doesn't pan.
+ */
+export type IZoomAnchor <TDomain extends number | Date = number> =
+  | 'cursor'
+  | 'center'
+  | 'min'
+  | 'max'
+  | {value: TDomain | number}
+  | ((info: {scale: IScale; position: number}) => number | undefined);
+
 export interface IBBox {
   xMin: number;
   xMax: number;
@@ -55,3 +110,11 @@ export interface IBBox {
   yHeight: number;
 }
 
+
+/** The rectangle of a box zoom in progress. */
+export interface IZoomBox <TX extends number | Date = number, TY extends number | Date = TX> {
+  /** The rectangle in range (pixel) coordinates, relative to the chart element, as `[[xMin, xMax], [yMin, yMax]]`. */
+  range: IRange;
+  /** The rectangle in domain coordinates, in the same order as the domains of the scales. This is the domain it zooms to. */
+  domain: IDomain<TX, TY>;
+}
@@ -0,0 +1,24 @@
+import { useEffect } from 'react';
+import type { PanZoomController } from './PanZoomController';
+import type { ISyncMode, PanZoomGroup } from './PanZoomGroup';
+
+
+/**
+ * `useLinkedPanZoom` — add a `usePanZoom` instance to a `PanZoomGroup` for as long as the component is mounted.
+ *
+ * The group should be created once and shared by the linked charts, e.g. `useMemo(() => new PanZoomGroup({mode: 'x'}), [])`.
+ */
+export function useLinkedPanZoom (
+  group: PanZoomGroup,
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    mode,
+  }: {
+    /** What this chart follows. Defaults to the mode of the group. */
+    mode?: ISyncMode;
+  } = {},
+): void {
+  useEffect(() => {
+    return group.add(controller, {mode});
+  }, [group, controller, mode]);
+}
@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LiveEdge, type ILiveEdgeOptions } from './LiveEdge';
+import type { ITransitionOptions, PanZoomController } from './PanZoomController';
+import { toNumber } from './panZoom-utils';
+
+
+/** The return value of `useLiveEdge` */
+export interface ILiveEdgeResult {
+  /** Whether the view follows the live edge. */
+  isFollowing: boolean;
+  /** Resume following the live edge (e.g. from a "live" button), with a transition to it. */
+  follow: (opts?: ITransitionOptions) => void;
+}
+
+
+/**
+ * `useLiveEdge` — auto-scroll the x domain of a `usePanZoom` instance with the newest data, see `LiveEdge`.
+ *
+ * Pass the x value of the newest data as `edge` (or `undefined` until there is data).
+ * The component re-renders when `isFollowing` changes.
+ */
+export function useLiveEdge (
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    edge,
+    tolerance,
+  }: ILiveEdgeOptions & {
+    /** The x value (a number, or a Date for time scales) of the newest data. */
+    edge: number | Date | undefined;
+  },
+): ILiveEdgeResult {
+  const [liveEdge, setLiveEdge] = useState<LiveEdge | undefined>();
+  const [, setRev] = useState(0);
+
+  useEffect(() => {
+    const _liveEdge = new LiveEdge(controller, {tolerance});
+    setLiveEdge(_liveEdge);
+    const unsubscribe = _liveEdge.subscribe(() => {
+      setRev((rev) => rev + 1);
+    });
+    return () => {
+      unsubscribe();
+      _liveEdge.destroy();
+    };
+  }, [controller, tolerance]);
+
+  // Dates are compared by value.
+  const edgeValue = edge === undefined ? undefined : toNumber(edge);
+  useEffect(() => {
+    if (edgeValue === undefined) return;
+    liveEdge?.setEdge(edgeValue);
+  }, [liveEdge, edgeValue]);
+
+  const follow = useMemo(() => (opts?: ITransitionOptions) => {
+    liveEdge?.follow(opts);
+  }, [liveEdge]);
+
+  return {
+    isFollowing: liveEdge?.isFollowing ?? true,
+    follow,
+  };
+}
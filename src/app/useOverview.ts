@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Overview, type IOverviewOptions, type IOverviewTarget } from './Overview';
+import type { PanZoomController } from './PanZoomController';
+import type { IRange } from './types';
+
+
+/** The return value of `useOverview` */
+export interface IOverviewResult {
+  /** The current domain of the main view, as a rectangle in overview coordinates, `[[xMin, xMax], [yMin, yMax]]`. */
+  viewport: IRange | undefined;
+  /** What the given overview position is over, e.g. to pick a cursor. */
+  hitTest: (pos: {x: number; y: number}) => IOverviewTarget;
+  /** Call on pointer down events on the overview, passing a position relative to the overview. */
+  onPointerDown: (pointerId: number, pos: {x: number; y: number}) => void;
+  /** Call on pointer move events, passing a position relative to the overview. */
+  onPointerMove: (pointerId: number, pos: {x: number; y: number}) => void;
+  /** Call on pointer up events. */
+  onPointerUp: (pointerId: number) => void;
+}
+
+
+/**
+ * `useOverview` — a headless overview (minimap) of a `usePanZoom` instance, see `Overview`.
+ *
+ * The domains of the overview scales follow the constraint of the main view,
+ * and the component re-renders when the main view or the constraint changes.
+ *
+ * The overview is created again when the options change, so the scales must keep their identity across renders
+ * (e.g. with `useMemo`): new scales on every render would create a new overview on every render, endlessly.
+ */
+export function useOverview (
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    xScale,
+    yScale,
+    axis,
+    handleSize,
+  }: IOverviewOptions,
+): IOverviewResult {
+  const [overview, setOverview] = useState<Overview | undefined>();
+  const [, setRev] = useState(0);
+
+  useEffect(() => {
+    const _overview = new Overview(controller, {xScale, yScale, axis, handleSize});
+    setOverview(_overview);
+    const unsubscribe = controller.subscribe(() => {
+      // The constraint may have changed (e.g. as live data arrives).
+      _overview.fit();
+      setRev((rev) => rev + 1);
+    });
+    return () => {
+      unsubscribe();
+      _overview.destroy();
+    };
+  }, [controller, xScale, yScale, axis, handleSize]);
+
+  const handlers = useMemo(() => ({
+    hitTest: (pos: {x: number; y: number}) => overview?.hitTest(pos) ?? 'outside',
+    onPointerDown: (pointerId: number, pos: {x: number; y: number}) => {
+      overview?.pointerDown(pointerId, pos);
+    },
+    onPointerMove: (pointerId: number, pos: {x: number; y: number}) => {
+      overview?.pointerMove(pointerId, pos);
+    },
+    onPointerUp: (pointerId: number) => {
+      overview?.pointerUp(pointerId);
+    },
+  }), [overview]);
+
+  return {
+    viewport: overview?.getViewport(),
+    ...handlers,
+  };
+}
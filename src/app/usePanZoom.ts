@@ -1,19 +1,24 @@
-import { useRef, useCallback } from 'react';
-import { calcBbox, updateScales, zoom } from './panZoom-utils';
-import type { IBBox, IGesture, IScale } from './types';
+import { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { PanZoomController, type IPanZoomEventMap, type IPanZoomOptions, type ITransitionOptions } from './PanZoomController';
+import type { IWheelInput } from './panZoom-utils';
+import type { IDomain, IGesture, IScale, ISpanLimits, IZoomBox } from './types';
 
-const SINGLE_AXIS_THRESHOLD = 100;
 
 
-
-/** The return value of `usePanZoom` */
-export interface IResult {
+/**
+ * The return value of `usePanZoom`.
+ * `TX` and `TY` are the types of the values of the domains of the scales: `Date` for time scales, `number` otherwise.
+ */
+export interface IResult <TX extends number | Date = number, TY extends number | Date = TX> {
   /**
    * Call `onPointerDown` on pointer down events, passing the pointerId.
+   * Pass `boxZoom: true` (e.g. while a modifier key is held) to drag a box to zoom into instead of panning.
+   * Pass `shiftKey: true` while Shift is held, to make a double click zoom out.
    */
   onPointerDown: (
     pointerId: number,
     pos: {x: number; y: number},
+    opts?: {boxZoom?: boolean; shiftKey?: boolean},
   ) => void;
 
   /**
@@ -23,6 +28,14 @@ export interface IResult {
     pointerId: number,
   ) => void;
 
+  /**
+   * Call `onPointerCancel` on pointer cancel events, passing the pointerId.
+   * The pointer is abandoned, without zooming on a tap or gliding.
+   */
+  onPointerCancel: (
+    pointerId: number,
+  ) => void;
+
   /**
    * Call `onWheelZoom` on wheel events from the chart element.
    * Pass a position relative to the chart element.
@@ -33,251 +46,273 @@ export interface IResult {
     zoomRatio: number;
   }) => void;
 
+  /**
+   * Call `onWheel` on wheel events from the chart element, passing the event (or its `deltaX`, `deltaY`, `deltaMode`,
+   * `ctrlKey`, `metaKey` and `shiftKey`) and a position relative to the chart element.
+   * It tells mouse wheels, trackpad swipes and trackpad pinches apart, and zooms or pans accordingly (see the `wheel` option).
+   */
+  onWheel: (opts: IWheelInput & {
+    center: {x: number; y: number};
+  }) => void;
+
+  /**
+   * Call `onPointerHover` on pointer move events over the chart element (without a pressed button),
+   * and with `undefined` on pointer leave. Keyboard zooms are centered on the hovered position.
+   */
+  onPointerHover: (
+    pos: {x: number; y: number} | undefined,
+  ) => void;
+
+  /**
+   * Call `onKeyDown` on key down events from the chart element, which should be focusable (e.g. `tabIndex={0}`).
+   * Arrow keys pan, `+`/`-` and PageUp/PageDown zoom, and Home resets. Shift makes the arrow and page steps bigger.
+   * The default action of handled keys (e.g. scrolling the page) is prevented.
+   * Returns whether the key was handled.
+   */
+  onKeyDown: (event: {
+    key: string;
+    shiftKey?: boolean;
+    preventDefault?: () => void;
+  }) => boolean;
+
+  /**
+   * The box zoom in progress (if any), for rendering the box.
+   */
+  getZoomBox: () => IZoomBox<TX, TY> | undefined;
+
+  /**
+   * Abandon the box zoom in progress (if any), e.g. when the Escape key is pressed.
+   */
+  cancelBoxZoom: () => void;
+
+  /**
+   * The current `[xDomain, yDomain]` of the scales, with Dates for time scales.
+   */
+  getDomain: () => IDomain<TX, TY>;
+
+  /**
+   * Show the given domain, applying the constraint, span limits and axis locks.
+   */
+  setDomain: (domain: IDomain<TX | number, TY | number>) => void;
+
+  /**
+   * Move the view.
+   * In `'range'` units (the default), positive `dx`/`dy` move the view right/down on the screen by that many pixels.
+   * In `'domain'` units, positive `dx`/`dy` move the view towards larger domain values.
+   */
+  panBy: (
+    delta: {dx?: number; dy?: number},
+    opts?: {units?: 'range' | 'domain'},
+  ) => void;
+
+  /**
+   * Zoom in (`factor > 1`) or out (`factor < 1`) around the given center,
+   * which is a position relative to the chart element. Defaults to the center of the view.
+   */
+  zoomBy: (
+    factor: number,
+    center?: {x: number; y: number},
+  ) => void;
+
+  /**
+   * Return to `resetDomain`, or to the domain the scales had before the first interaction.
+   */
+  reset: () => void;
+
+  /**
+   * Animate the view to the given domain.
+   * The constraint, span limits and axis locks are applied on every frame.
+   * The transition is interrupted by a new pointer, a wheel event, another programmatic change, or `interrupt`.
+   * Returns a promise that resolves to `true` when the transition completes, or `false` when it is interrupted.
+   */
+  transitionTo: (
+    domain: IDomain<TX | number, TY | number>,
+    opts?: ITransitionOptions,
+  ) => Promise<boolean>;
+
+  /**
+   * Stop the transition in progress (if any), leaving the view where it is.
+   */
+  interrupt: () => void;
+
+  /**
+   * Add a listener of the gesture and change events of the given type, e.g. `'gesturestart'`, `'zoom'` or `'limitReached'`
+   * (see `IPanZoomEventMap`). Any number of listeners can listen independently.
+   * Returns a function that removes the listener.
+   */
+  on: <K extends keyof IPanZoomEventMap>(
+    type: K,
+    listener: (event: IPanZoomEventMap<TX, TY>[K]) => void,
+  ) => () => void;
+
   /**
    * This is the gesture state. Not usually needed.
    */
   gesture: IGesture;
+
+  /**
+   * The underlying controller. Not usually needed.
+   */
+  controller: PanZoomController<TX, TY>;
 }
 
 
 /**
  * `usePanZoom` — manipulate a pair of X and Y domains using a view.
+ *
+ * This is a thin React wrapper around `PanZoomController`.
+ * With time scales (e.g. `scaleTime`), domains are Dates, and spans are durations in milliseconds.
  */
-export function usePanZoom ({
+export function usePanZoom <TX extends number | Date = number, TY extends number | Date = TX> ({
   xScale,
   yScale,
   onUpdate,
+  domain,
+  onChange,
   constrain,
   preserveAspectRatio,
   lockXAxis = false,
   lockYAxis = false,
   minZoom,
   maxZoom,
+  anchor,
+  resetDomain,
+  snap,
+  reducedMotion,
+  momentum,
+  elastic,
+  boxZoom,
+  doubleTap,
+  keyboard,
+  wheel,
+  wheelIdleTimeout,
   registerMoveListener,
 }: {
-  xScale: IScale;
-  yScale: IScale;
+  xScale: IScale<TX>;
+  yScale: IScale<TY>;
   onUpdate?: () => void;
-  constrain?: Partial<IBBox>;
+  /**
+   * Set this to use controlled mode: the view shows this domain, and `xScale`/`yScale` are left untouched.
+   * Interactions call `onChange` with the next domain, which only shows once it is passed back as `domain`.
+   */
+  domain?: IPanZoomOptions<TX, TY>['domain'];
+  /** Called with the next domain, and what changed it, whenever the view changes (or, in controlled mode, would change). */
+  onChange?: IPanZoomOptions<TX, TY>['onChange'];
+  constrain?: IPanZoomOptions<TX, TY>['constrain'];
   preserveAspectRatio?: boolean;
   lockXAxis?: boolean;
   lockYAxis?: boolean;
-  minZoom?: {xSpan?: number; ySpan?: number};
-  maxZoom?: {xSpan?: number; ySpan?: number};
-  /**
-   * Implement this function to properly handle pointer move events.
-   * It should add a pointer move event listener, and return a function that removes it.
-   * This way, pointer move events are ignored unless the chart is actually being interacted with.
-   * This is important, because the pointer move listener must be attached on the entire document (for freedom of movement).
-   */
-  registerMoveListener?: (
-    /**
-     * Call `onPointerMove` for every move of every pointer, passing the pointer position relative to the view element.
-     */
-    onPointerMove: (
-      pointerId: number,
-      pos: {x: number; y: number},
-    ) => void,
-  ) => (() => void);
-}): IResult {
-  const xScaleRef = useRef(xScale); xScaleRef.current = xScale;
-  const yScaleRef = useRef(yScale); yScaleRef.current = yScale;
+  minZoom?: ISpanLimits;
+  maxZoom?: ISpanLimits;
+  /** Where zooms are anchored on each axis: the cursor (the default), the center, an edge or a domain value. */
+  anchor?: IPanZoomOptions<TX, TY>['anchor'];
+  resetDomain?: IPanZoomOptions<TX, TY>['resetDomain'];
+  /** Snap the view when it comes to rest, e.g. to whole bands (see `createBandIndexScale`). */
+  snap?: IPanZoomOptions<TX, TY>['snap'];
+  reducedMotion?: boolean;
+  momentum?: IPanZoomOptions['momentum'];
+  elastic?: IPanZoomOptions['elastic'];
+  boxZoom?: IPanZoomOptions['boxZoom'];
+  doubleTap?: IPanZoomOptions['doubleTap'];
+  keyboard?: IPanZoomOptions['keyboard'];
+  wheel?: IPanZoomOptions['wheel'];
+  wheelIdleTimeout?: number;
+  registerMoveListener?: IPanZoomOptions['registerMoveListener'];
+}): IResult<TX, TY> {
   const onUpdateRef = useRef(onUpdate); onUpdateRef.current = onUpdate;
 
-  const gestureRef = useRef<IGesture>({
-    inProgress: false,
-    initialXScale: xScale, // dummy default
-    initialYScale: yScale, // dummy default
-    initialGestureBBox: {xMin: 0, xMax: 0, yMin: 0, yMax: 0, xWidth: 0, yHeight: 0}, // dummy default
-    currentGestureBBox: {xMin: 0, xMax: 0, yMin: 0, yMax: 0, xWidth: 0, yHeight: 0}, // dummy default
-    pointerPositions: new Map(),
-    constraint: constrain,
+  const options: IPanZoomOptions<TX, TY> = {
+    xScale,
+    yScale,
+    domain,
+    onChange,
+    constrain,
+    preserveAspectRatio,
     lockXAxis,
     lockYAxis,
-    preserveAspectRatio,
     minZoom,
     maxZoom,
-    singleAxis: undefined,
+    anchor,
+    resetDomain,
+    snap,
+    reducedMotion,
+    momentum,
+    elastic,
+    boxZoom,
+    doubleTap,
+    keyboard,
+    wheel,
+    wheelIdleTimeout,
+    registerMoveListener,
+  };
+  const controllerRef = useRef<PanZoomController<TX, TY> | undefined>();
+  controllerRef.current ??= new PanZoomController(options);
+  const controller = controllerRef.current;
+  // The options are applied after rendering (but before painting), because in controlled mode,
+  // showing a new `domain` notifies the listeners of the controller, which may update other components.
+  useLayoutEffect(() => {
+    controller.setOptions(options);
   });
 
-  gestureRef.current.constraint = constrain;
-  gestureRef.current.preserveAspectRatio = preserveAspectRatio;
-  gestureRef.current.minZoom = minZoom;
-  gestureRef.current.maxZoom = maxZoom;
-
-  const updateTimeoutRef = useRef<number | undefined>();
-  const update = useCallback(() => {
-    updateTimeoutRef.current = undefined;
-    onUpdateRef.current?.();
-  }, []);
-  const scheduleUpdate = useCallback(() => {
-    if (!updateTimeoutRef.current) {
-      updateTimeoutRef.current = requestAnimationFrame(update);
-    }
-  }, [update]);
-  const scheduleUpdateRef = useRef(scheduleUpdate); scheduleUpdateRef.current = scheduleUpdate;
-
-  const commitGesture = useCallback((gesture: IGesture) => {
-    const _xScale = xScaleRef.current;
-    const _yScale = yScaleRef.current;
-    updateScales({
-      xScale: _xScale,
-      yScale: _yScale,
-      initialXScale: gesture.initialXScale,
-      initialYScale: gesture.initialYScale,
-      initialGestureBBox: gesture.initialGestureBBox,
-      currentGestureBBox: gesture.currentGestureBBox,
-      constraint: gesture.constraint,
-      lockXAxis: gesture.lockXAxis,
-      lockYAxis: gesture.lockYAxis,
-      preserveAspectRatio: gesture.preserveAspectRatio,
-      minZoom: gesture.minZoom,
-      maxZoom: gesture.maxZoom,
-      singleAxis: gesture.singleAxis,
+  useEffect(() => {
+    const unsubscribe = controller.subscribe(() => {
+      onUpdateRef.current?.();
     });
-  }, []);
-  const commitGestureRef = useRef(commitGesture); commitGestureRef.current = commitGesture;
+    return () => {
+      unsubscribe();
+      controller.destroy();
+    };
+  }, [controller]);
 
-  const resetGesture = useCallback((gesture: IGesture) => {
-    if (gesture.pointerPositions.size === 0) {
-      gesture.inProgress = false;
-      return;
-    }
-    const bbox = calcBbox(gesture.pointerPositions);
-    if (gesture.pointerPositions.size < 2) {
-      gesture.singleAxis = undefined;
-    } else {
-      const isXNarrow = (bbox.xWidth < SINGLE_AXIS_THRESHOLD);
-      const isYNarrow = (bbox.yHeight < SINGLE_AXIS_THRESHOLD);
-      const bothAreNarrow = (isXNarrow && isYNarrow);
-      const predominantlyX = (bbox.xWidth / bbox.yHeight > 1.2);
-      const predominantlyY = (bbox.xWidth / bbox.yHeight < 0.8);
-      gesture.singleAxis = gesture.preserveAspectRatio ?
-        undefined :
-        (bothAreNarrow) ?
-          (predominantlyY) ? 'y' : (predominantlyX) ? 'x' : undefined :
-          (isXNarrow) ?
-            'y' :
-            isYNarrow ?
-              'x':
-              undefined
-      ;
-    }
-    gesture.initialGestureBBox = bbox;
-    gesture.currentGestureBBox = bbox;
-    gesture.initialXScale = xScaleRef.current.copy();
-    gesture.initialYScale = yScaleRef.current.copy();
-  }, []);
-  const resetGestureRef = useRef(resetGesture); resetGestureRef.current = resetGesture;
-
-  const registerMoveListenerRef = useRef(registerMoveListener); registerMoveListenerRef.current = registerMoveListener;
-  const removeMoveListenerRef = useRef<(() => void) | undefined>();
-
-  /**
-   * `onPointerDown` is called by the consumer when a new pointer has been pressed.
-   * It includes the view-space coordinates and a pointer ID.
-   * When this happens, we create a new gesture, resetting all pointers to have new origins.
-   * Since a new pointer doesn't actually change the gesture, there is no need to update it.
-   */
-  const onPointerDown = useCallback((
-    pointerId: number,
-    pos: {x: number; y: number},
-  ) => {
-    const _gesture = gestureRef.current;
-    const _commitGesture = commitGestureRef.current;
-    const _scheduleUpdate = scheduleUpdateRef.current;
-    const _resetGesture = resetGestureRef.current;
-
-    if (!_gesture.inProgress) {
-      // Case: first pointer pressed down.
-      _gesture.inProgress = true;
-      _gesture.pointerPositions.set(pointerId, pos);
-      _resetGesture(_gesture);
-
-      const onPointerMove = (
-        pointerId: number,
-        pos: {x: number; y: number},
-      ) => {
-        const gesture = gestureRef.current;
-        if (!gesture.inProgress) return;
-        // Ignore moves that originated outside of the element (they had no pointerdown event).
-        if (!gesture.pointerPositions.has(pointerId)) return;
-        const _commitGesture = commitGestureRef.current;
-        const _scheduleUpdate = scheduleUpdateRef.current;
-
-        gesture.pointerPositions.set(pointerId, pos);
-        gesture.currentGestureBBox = calcBbox(gesture.pointerPositions);
-        _commitGesture(gesture);
-        _scheduleUpdate();
-      };
-      removeMoveListenerRef.current = registerMoveListenerRef.current?.(onPointerMove);
-    } else {
-      // Case: second or Nth pointer pressed down.
-      // Commit the current gesture and start a new one.
-      _commitGesture(_gesture);
-      _scheduleUpdate();
-      _gesture.pointerPositions.set(pointerId, pos);
-      _resetGesture(_gesture);
-    }
-    _scheduleUpdate();
-  }, []);
-
-  const onPointerUp = useCallback((
-    pointerId: number,
-  ) => {
-    const _gesture = gestureRef.current;
-    if (!_gesture.inProgress) return;
-    const _commitGesture = commitGestureRef.current;
-    const _scheduleUpdate = scheduleUpdateRef.current;
-    const _resetGesture = resetGestureRef.current;
-
-    _gesture.currentGestureBBox = calcBbox(_gesture.pointerPositions);
-    _commitGesture(_gesture);
-    _scheduleUpdate();
-    _gesture.pointerPositions.delete(pointerId);
-    _resetGesture(_gesture);
-
-    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- wrong; function calls change gesture state
-    if (!_gesture.inProgress) {
-      // At the end of the interaction, stop listening to move events.
-      removeMoveListenerRef.current?.();
-      removeMoveListenerRef.current = undefined;
-    }
-  }, []);
-
-  const onWheelZoom = useCallback(({
-    center,
-    zoomRatio,
-  }: {
-    center: {x: number; y: number};
-    zoomRatio: number;
-  }) => {
-    const _gesture = gestureRef.current;
-    // Ignore wheel events if a gesture is in progress, because they simply don't work and add visual jitter.
-    if (_gesture.inProgress) return;
-    const _xScale = xScaleRef.current;
-    const _yScale = yScaleRef.current;
-    const _scheduleUpdate = scheduleUpdateRef.current;
-
-    zoom({
-      xScale: _xScale,
-      yScale: _yScale,
-      center,
-      zoomRatio,
-      constraint: _gesture.constraint,
-      lockXAxis: _gesture.lockXAxis,
-      lockYAxis: _gesture.lockYAxis,
-      minZoom: _gesture.minZoom,
-      maxZoom: _gesture.maxZoom,
-    });
-
-    _scheduleUpdate();
-  }, []);
-
-  return {
-    onPointerDown,
-    onPointerUp,
-    onWheelZoom,
-    gesture: gestureRef.current,
-  };
+  return useMemo<IResult<TX, TY>>(() => ({
+    onPointerDown: (pointerId, pos, opts) => {
+      controller.pointerDown(pointerId, pos, opts);
+    },
+    onPointerUp: (pointerId) => {
+      controller.pointerUp(pointerId);
+    },
+    onPointerCancel: (pointerId) => {
+      controller.pointerCancel(pointerId);
+    },
+    onWheelZoom: (opts) => {
+      controller.wheelZoom(opts);
+    },
+    onWheel: ({center, deltaX, deltaY, deltaMode, ctrlKey, metaKey, shiftKey}) => {
+      controller.wheel({center, deltaX, deltaY, deltaMode, ctrlKey, metaKey, shiftKey});
+    },
+    onPointerHover: (pos) => {
+      controller.hover(pos);
+    },
+    onKeyDown: (event) => {
+      const isHandled = controller.keyDown(event);
+      if (isHandled) {
+        event.preventDefault?.();
+      }
+      return isHandled;
+    },
+    getZoomBox: () => controller.getZoomBox(),
+    cancelBoxZoom: () => {
+      controller.cancelBoxZoom();
+    },
+    getDomain: () => controller.getDomain(),
+    setDomain: (domain) => {
+      controller.setDomain(domain);
+    },
+    panBy: (delta, opts) => {
+      controller.panBy(delta, opts);
+    },
+    zoomBy: (factor, center) => {
+      controller.zoomBy(factor, center);
+    },
+    reset: () => {
+      controller.reset();
+    },
+    transitionTo: (domain, opts) => controller.transitionTo(domain, opts),
+    interrupt: () => {
+      controller.interrupt();
+    },
+    on: (type, listener) => controller.on(type, listener),
+    gesture: controller.gesture,
+    controller,
+  }), [controller]);
 }
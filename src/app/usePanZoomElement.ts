@@ -0,0 +1,170 @@
+import { useEffect, useRef } from 'react';
+import { usePanZoom, type IResult } from './usePanZoom';
+
+
+/** The options of `usePanZoomElement`: those of `usePanZoom`, plus the DOM-specific ones. */
+export type IPanZoomElementOptions <
+  TX extends number | Date = number,
+  TY extends number | Date = TX,
+> = Omit<Parameters<typeof usePanZoom<TX, TY>>[0], 'registerMoveListener'> & {
+  /**
+   * While this modifier key is held, dragging draws a zoom box (see the `boxZoom` option) instead of panning.
+   * Defaults to none (no box zoom).
+   */
+  boxZoomKey?: 'shiftKey' | 'altKey' | 'ctrlKey' | 'metaKey';
+  /** Show `grab`/`grabbing` cursors over the element. Defaults to `true`. */
+  cursor?: boolean;
+};
+
+
+/**
+ * `usePanZoomElement` — `usePanZoom`, bound to a DOM element.
+ *
+ * It takes care of the DOM event plumbing:
+ *   - Pointer events, with pointer capture so that a gesture can continue outside of the element (and the window).
+ *     `pointercancel` (e.g. when the browser takes over a touch) and an unexpected `lostpointercapture` abandon the pointer
+ *     (see `pointerCancel`).
+ *   - Wheel events (see `onWheel`), and key events while the `keyboard` option is set (the element is made focusable).
+ *   - Positions relative to the element.
+ *   - `touch-action: none`, and cancelling `touchstart`/`wheel` with `{passive: false}`,
+ *     so that the browser doesn't scroll or zoom the page instead.
+ *   - `grab`/`grabbing` cursors.
+ *
+ * Pass the element once it is known, e.g. from a ref callback that sets a state (`ref={setChartElement}`).
+ * Use `usePanZoom` directly for custom setups.
+ */
+export function usePanZoomElement <TX extends number | Date = number, TY extends number | Date = TX> (
+  element: HTMLElement | SVGElement | null | undefined,
+  options: IPanZoomElementOptions<TX, TY>,
+): IResult<TX, TY> {
+  const {boxZoomKey, cursor = true, ...panZoomOptions} = options;
+  const panZoom = usePanZoom(panZoomOptions);
+  const {controller} = panZoom;
+  const optionsRef = useRef({boxZoomKey, cursor, keyboard: panZoomOptions.keyboard});
+  optionsRef.current = {boxZoomKey, cursor, keyboard: panZoomOptions.keyboard};
+  const isFocusable = Boolean(panZoomOptions.keyboard);
+
+  useEffect(() => {
+    if (!element) return;
+    const {style} = element;
+    const initialStyle = {touchAction: style.touchAction, cursor: style.cursor};
+    const activePointers = new Set<number>();
+    // The position of the element is measured at the start of each gesture, and for each wheel event.
+    let rect = element.getBoundingClientRect();
+    const getPos = (e: MouseEvent) => ({
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+    });
+    const updateCursor = () => {
+      if (!optionsRef.current.cursor) return;
+      style.cursor = activePointers.size > 0 ? 'grabbing' : 'grab';
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      // Only the primary button pans (no right-clicks, etc).
+      if (e.pointerType === 'mouse' && e.button !== 0) return;
+      if (activePointers.size === 0) {
+        rect = element.getBoundingClientRect();
+      }
+      activePointers.add(e.pointerId);
+      element.setPointerCapture(e.pointerId);
+      const {boxZoomKey} = optionsRef.current;
+      controller.pointerDown(e.pointerId, getPos(e), {
+        boxZoom: boxZoomKey ? e[boxZoomKey] : false,
+        shiftKey: e.shiftKey,
+      });
+      updateCursor();
+    };
+    const handlePointerMove = (e: PointerEvent) => {
+      if (activePointers.has(e.pointerId)) {
+        controller.pointerMove(e.pointerId, getPos(e));
+      } else if (e.pointerType === 'mouse') {
+        if (activePointers.size === 0) {
+          rect = element.getBoundingClientRect();
+        }
+        controller.hover(getPos(e));
+      }
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (!activePointers.delete(e.pointerId)) return;
+      if (element.hasPointerCapture(e.pointerId)) {
+        element.releasePointerCapture(e.pointerId);
+      }
+      controller.pointerUp(e.pointerId);
+      updateCursor();
+    };
+    const handlePointerCancel = (e: PointerEvent) => {
+      // `lostpointercapture` also follows `pointerup` and `pointercancel`, so each pointer is only ended once.
+      if (!activePointers.delete(e.pointerId)) return;
+      controller.pointerCancel(e.pointerId);
+      updateCursor();
+    };
+    const handlePointerLeave = () => {
+      controller.hover(undefined);
+    };
+    const handleWheel = (e: WheelEvent) => {
+      // Cancel the wheel event so that the page doesn't scroll.
+      e.preventDefault();
+      rect = element.getBoundingClientRect();
+      controller.wheel({
+        center: getPos(e),
+        deltaX: e.deltaX,
+        deltaY: e.deltaY,
+        deltaMode: e.deltaMode,
+        ctrlKey: e.ctrlKey,
+        metaKey: e.metaKey,
+        shiftKey: e.shiftKey,
+      });
+    };
+    const handleTouchStart = (e: TouchEvent) => {
+      // Cancel `touchstart` or else the browser will sometimes hijack the touch for scrolling,
+      // page navigation ("swipe"), or full-page pixelated zooming.
+      e.preventDefault();
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!optionsRef.current.keyboard) return;
+      if (controller.keyDown(e)) {
+        e.preventDefault();
+      }
+    };
+
+    style.touchAction = 'none';
+    updateCursor();
+    // The element's type narrows the event types of `addEventListener`, so the listeners are cast to `EventListener`.
+    const listeners: [string, EventListener, AddEventListenerOptions?][] = [
+      ['pointerdown', handlePointerDown as EventListener],
+      ['pointermove', handlePointerMove as EventListener],
+      ['pointerup', handlePointerUp as EventListener],
+      ['pointercancel', handlePointerCancel as EventListener],
+      ['lostpointercapture', handlePointerCancel as EventListener],
+      ['pointerleave', handlePointerLeave],
+      ['wheel', handleWheel as EventListener, {passive: false}],
+      ['touchstart', handleTouchStart as EventListener, {passive: false}],
+      ['keydown', handleKeyDown as EventListener],
+    ];
+    for (const [type, listener, listenerOptions] of listeners) {
+      element.addEventListener(type, listener, listenerOptions);
+    }
+    return () => {
+      for (const [type, listener] of listeners) {
+        element.removeEventListener(type, listener);
+      }
+      for (const pointerId of activePointers) {
+        controller.pointerCancel(pointerId);
+      }
+      style.touchAction = initialStyle.touchAction;
+      style.cursor = initialStyle.cursor;
+    };
+  }, [element, controller]);
+
+  // Make the element focusable while the keyboard is on, unless it already is.
+  useEffect(() => {
+    if (!element || !isFocusable || element.hasAttribute('tabindex')) return;
+    element.setAttribute('tabindex', '0');
+    return () => {
+      element.removeAttribute('tabindex');
+    };
+  }, [element, isFocusable]);
+
+  return panZoom;
+}
@@ -0,0 +1,67 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { PanZoomController } from './PanZoomController';
+import { Scrollbar, type IScrollbarOptions, type IScrollbarTarget, type IScrollbarThumb } from './Scrollbar';
+
+
+/** The return value of `useScrollbar` */
+export interface IScrollbarResult {
+  /** The thumb, in pixels along the track. */
+  thumb: IScrollbarThumb | undefined;
+  /** What the given position along the track is over, e.g. to pick a cursor. */
+  hitTest: (pos: number) => IScrollbarTarget | undefined;
+  /** Call on pointer down events on the scrollbar, passing the position along the track. */
+  onPointerDown: (pointerId: number, pos: number) => void;
+  /** Call on pointer move events, passing the position along the track. */
+  onPointerMove: (pointerId: number, pos: number) => void;
+  /** Call on pointer up events. */
+  onPointerUp: (pointerId: number) => void;
+}
+
+
+/**
+ * `useScrollbar` — a headless scrollbar for one axis of a `usePanZoom` instance, see `Scrollbar`.
+ *
+ * The component re-renders when the view changes.
+ */
+export function useScrollbar (
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    axis,
+    length,
+    minThumbSize,
+    handleSize,
+  }: IScrollbarOptions,
+): IScrollbarResult {
+  const [scrollbar, setScrollbar] = useState<Scrollbar | undefined>();
+  const [, setRev] = useState(0);
+
+  useEffect(() => {
+    const _scrollbar = new Scrollbar(controller, {axis, length, minThumbSize, handleSize});
+    setScrollbar(_scrollbar);
+    const unsubscribe = controller.subscribe(() => {
+      setRev((rev) => rev + 1);
+    });
+    return () => {
+      unsubscribe();
+      _scrollbar.destroy();
+    };
+  }, [controller, axis, length, minThumbSize, handleSize]);
+
+  const handlers = useMemo(() => ({
+    hitTest: (pos: number) => scrollbar?.hitTest(pos),
+    onPointerDown: (pointerId: number, pos: number) => {
+      scrollbar?.pointerDown(pointerId, pos);
+    },
+    onPointerMove: (pointerId: number, pos: number) => {
+      scrollbar?.pointerMove(pointerId, pos);
+    },
+    onPointerUp: (pointerId: number) => {
+      scrollbar?.pointerUp(pointerId);
+    },
+  }), [scrollbar]);
+
+  return {
+    thumb: scrollbar?.getThumb(),
+    ...handlers,
+  };
+}
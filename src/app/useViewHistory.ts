@@ -0,0 +1,69 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { PanZoomController } from './PanZoomController';
+import { ViewHistory } from './ViewHistory';
+
+
+/** The return value of `useViewHistory` */
+export interface IViewHistoryResult {
+  /** Show the previous view, if any. */
+  back: () => void;
+  /** Show the next view, if any (after going back). */
+  forward: () => void;
+  /** Forget all entries. */
+  clear: () => void;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  /** The number of entries. */
+  length: number;
+}
+
+
+/**
+ * `useViewHistory` — undo/redo for the views of a `usePanZoom` instance.
+ *
+ * A snapshot is recorded at the end of each gesture, wheel burst or transition.
+ * The component re-renders when `canGoBack`/`canGoForward` change.
+ */
+export function useViewHistory (
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    maxLength,
+  }: {
+    /** The maximum number of entries. The oldest entries are dropped. Defaults to 50. */
+    maxLength?: number;
+  } = {},
+): IViewHistoryResult {
+  const [history, setHistory] = useState<ViewHistory | undefined>();
+  const [, setRev] = useState(0);
+
+  useEffect(() => {
+    const _history = new ViewHistory(controller, {maxLength});
+    setHistory(_history);
+    const unsubscribe = _history.subscribe(() => {
+      setRev((rev) => rev + 1);
+    });
+    return () => {
+      unsubscribe();
+      _history.destroy();
+    };
+  }, [controller, maxLength]);
+
+  const actions = useMemo(() => ({
+    back: () => {
+      history?.back();
+    },
+    forward: () => {
+      history?.forward();
+    },
+    clear: () => {
+      history?.clear();
+    },
+  }), [history]);
+
+  return {
+    ...actions,
+    canGoBack: history?.canGoBack ?? false,
+    canGoForward: history?.canGoForward ?? false,
+    length: history?.length ?? 0,
+  };
+}
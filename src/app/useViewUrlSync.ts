@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import type { PanZoomController } from './PanZoomController';
+import { ViewUrlSync, type IViewUrlSyncOptions } from './ViewUrlSync';
+
+
+/**
+ * `useViewUrlSync` — keep the view of a `usePanZoom` instance in the URL, for as long as the component is mounted.
+ *
+ * The view is restored from the URL on mount, and written back (debounced) when it comes to rest.
+ */
+export function useViewUrlSync (
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    param,
+    target,
+    version,
+    delay,
+  }: IViewUrlSyncOptions = {},
+): void {
+  useEffect(() => {
+    const sync = new ViewUrlSync(controller, {param, target, version, delay});
+    return () => {
+      sync.destroy();
+    };
+  }, [controller, param, target, version, delay]);
+}
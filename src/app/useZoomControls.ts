@@ -0,0 +1,71 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { PanZoomController } from './PanZoomController';
+import { calcZoomState, type IZoomState } from './panZoom-utils';
+
+const DEFAULT_STEP = 2;
+
+
+/** The return value of `useZoomControls` */
+export interface IZoomControlsResult extends IZoomState {
+  /** Zoom in by one step, around the center of the view (or the anchors of the `anchor` option of `usePanZoom`). */
+  zoomIn: () => void;
+  /** Zoom out by one step. */
+  zoomOut: () => void;
+  /** Return to the reset domain, see `reset`. */
+  reset: () => void;
+}
+
+
+/**
+ * `useZoomControls` — actions and state for zoom toolbar buttons of a `usePanZoom` instance.
+ *
+ * `canZoomIn`/`canZoomOut` tell whether a step would change the view, within the span limits (`minZoom`/`maxZoom`),
+ * the constraint and axis locks. `atXMin`, `atXMax`, `atYMin` and `atYMax` tell whether the view is against an edge of the constraint.
+ * They are computed with the same math as `zoom` and `constrain` (see `calcZoomState`).
+ * The component re-renders when the view changes.
+ */
+export function useZoomControls (
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    step = DEFAULT_STEP,
+  }: {
+    /** The zoom factor of each step. Defaults to 2. */
+    step?: number;
+  } = {},
+): IZoomControlsResult {
+  const [, setRev] = useState(0);
+
+  useEffect(() => {
+    const unsubscribe = controller.subscribe(() => {
+      setRev((rev) => rev + 1);
+    });
+    return unsubscribe;
+  }, [controller]);
+
+  const actions = useMemo(() => ({
+    zoomIn: () => {
+      controller.zoomBy(step);
+    },
+    zoomOut: () => {
+      controller.zoomBy(1 / step);
+    },
+    reset: () => {
+      controller.reset();
+    },
+  }), [controller, step]);
+
+  const {gesture} = controller;
+  return {
+    ...calcZoomState({
+      ...controller.getScales(),
+      factor: step,
+      anchor: controller.getAnchor(),
+      constraint: gesture.constraint,
+      lockXAxis: gesture.lockXAxis,
+      lockYAxis: gesture.lockYAxis,
+      minZoom: gesture.minZoom,
+      maxZoom: gesture.maxZoom,
+    }),
+    ...actions,
+  };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PanZoomController } from './PanZoomController';
+import { ZoomSlider, type IZoomSliderOptions } from './ZoomSlider';
+
+
+/** The return value of `useZoomSlider` */
+export interface IZoomSliderResult {
+  /** The position of the slider, from 0 (zoomed out) to 1 (zoomed in), or `undefined` if there are no span limits. */
+  position: number | undefined;
+  /** Zoom to the given position, e.g. while the slider is dragged. */
+  setPosition: (position: number) => void;
+}
+
+
+/**
+ * `useZoomSlider` — a headless log-scale zoom slider for a `usePanZoom` instance, see `ZoomSlider`.
+ *
+ * The component re-renders when the view changes.
+ */
+export function useZoomSlider (
+  {controller}: {controller: PanZoomController<number | Date>},
+  {
+    axis,
+    anchor,
+  }: IZoomSliderOptions = {},
+): IZoomSliderResult {
+  const [, setRev] = useState(0);
+  // The slider is stateless, so it is created with the latest options on every render.
+  const slider = new ZoomSlider(controller, {axis, anchor});
+  const sliderRef = useRef(slider); sliderRef.current = slider;
+
+  useEffect(() => {
+    const unsubscribe = controller.subscribe(() => {
+      setRev((rev) => rev + 1);
+    });
+    return unsubscribe;
+  }, [controller]);
+
+  const setPosition = useMemo(() => (position: number) => {
+    sliderRef.current.setPosition(position);
+  }, []);
+
+  return {
+    position: slider.getPosition(),
+    setPosition,
+  };
+}
@@ -0,0 +1,122 @@
+import { growConstraint, LiveEdge, ViewHistory, type IPanZoomOptions } from '~/index';
+import { createController, expectDomain } from './spec-utils';
+
+
+function createLiveEdge (overrides: Partial<IPanZoomOptions> = {}) {
+  const {xScale, controller, drag} = createController({reducedMotion: true, ...overrides});
+  const liveEdge = new LiveEdge(controller);
+  return {xScale, controller, liveEdge, drag};
+}
+
+
+describe('LiveEdge', () => {
+  test('scrolls the view with the edge, at the same span', () => {
+    const {xScale, liveEdge} = createLiveEdge();
+    liveEdge.setEdge(120);
+    expectDomain(xScale, [20, 120]);
+    liveEdge.setEdge(130);
+    expectDomain(xScale, [30, 130]);
+    expect(liveEdge.isFollowing).toBe(true);
+  });
+
+  test('stops following when panned away, and resumes at the edge', () => {
+    const {xScale, liveEdge, drag} = createLiveEdge();
+    const onChange = jest.fn();
+    liveEdge.subscribe(onChange);
+    liveEdge.setEdge(120);
+    drag(100);
+    expect(liveEdge.isFollowing).toBe(false);
+    liveEdge.setEdge(140);
+    expectDomain(xScale, [10, 110]);
+    drag(-300);
+    expect(liveEdge.isFollowing).toBe(true);
+    expectDomain(xScale, [40, 140]);
+    liveEdge.setEdge(150);
+    expectDomain(xScale, [50, 150]);
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  test('resumes following with follow', () => {
+    const {xScale, liveEdge, drag} = createLiveEdge();
+    liveEdge.setEdge(120);
+    drag(100);
+    liveEdge.setEdge(200);
+    liveEdge.follow();
+    expect(liveEdge.isFollowing).toBe(true);
+    expectDomain(xScale, [100, 200]);
+  });
+
+  test('waits for the gesture in progress, then catches up', () => {
+    const {xScale, controller, liveEdge} = createLiveEdge();
+    liveEdge.setEdge(120);
+    controller.pointerDown(1, {x: 500, y: 500});
+    liveEdge.setEdge(150);
+    expectDomain(xScale, [20, 120]);
+    controller.pointerUp(1);
+    expect(liveEdge.isFollowing).toBe(true);
+    expectDomain(xScale, [50, 150]);
+  });
+
+  test('keeps following when zooming around the edge', () => {
+    const {xScale, controller, liveEdge} = createLiveEdge({anchor: {x: 'max'}});
+    liveEdge.setEdge(100);
+    controller.zoomBy(2, {x: 0, y: 500});
+    expectDomain(xScale, [50, 100]);
+    liveEdge.setEdge(110);
+    expectDomain(xScale, [60, 110]);
+  });
+
+  test('stops following when the constraint keeps the view from the edge', () => {
+    const {xScale, liveEdge} = createLiveEdge({constrain: {xMin: 0, xMax: 110}});
+    const onChange = jest.fn();
+    liveEdge.subscribe(onChange);
+    liveEdge.setEdge(110);
+    expectDomain(xScale, [10, 110]);
+    expect(liveEdge.isFollowing).toBe(true);
+    liveEdge.setEdge(120);
+    expectDomain(xScale, [10, 110]);
+    expect(liveEdge.isFollowing).toBe(false);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    liveEdge.follow();
+    expect(liveEdge.isFollowing).toBe(false);
+  });
+
+  test('scrolls without settling, so that the view history only has the views of the user', () => {
+    jest.useFakeTimers({doNotFake: ['performance']});
+    const {xScale, controller, liveEdge, drag} = createLiveEdge();
+    const history = new ViewHistory(controller);
+    const onSettle = jest.fn();
+    controller.onSettle(onSettle);
+    for (let edge = 110; edge <= 150; edge += 10) {
+      liveEdge.setEdge(edge);
+      jest.advanceTimersByTime(1000);
+    }
+    expectDomain(xScale, [50, 150]);
+    expect(onSettle).not.toHaveBeenCalled();
+    expect(history.length).toBe(0);
+    drag(100);
+    liveEdge.setEdge(160);
+    jest.advanceTimersByTime(1000);
+    // The view before the drag is the one the data was scrolled to.
+    expect(history.length).toBe(2);
+    history.back();
+    expectDomain(xScale, [50, 150]);
+    jest.useRealTimers();
+  });
+
+  test('stops listening on destroy', () => {
+    const {xScale, liveEdge, drag} = createLiveEdge();
+    liveEdge.setEdge(120);
+    liveEdge.destroy();
+    drag(100);
+    expect(liveEdge.isFollowing).toBe(true);
+    expectDomain(xScale, [10, 110]);
+  });
+});
+
+test('growConstraint extends xMax to the edge', () => {
+  expect(growConstraint({xMin: 0, xMax: 100}, 120)).toEqual({xMin: 0, xMax: 120});
+  expect(growConstraint({xMin: 0, xMax: 100}, 80)).toEqual({xMin: 0, xMax: 100});
+  expect(growConstraint({xMin: 0}, 120)).toEqual({xMin: 0});
+  expect(growConstraint({xMax: new Date(100)}, new Date(120))).toEqual({xMax: new Date(120)});
+});
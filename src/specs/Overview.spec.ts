@@ -0,0 +1,124 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act } from 'react';
+import { Overview, useOverview, usePanZoom, type IPanZoomOptions } from '~/index';
+import { createController, expectAxisDomain, renderHook } from './spec-utils';
+
+
+function createOverview (overrides: Partial<IPanZoomOptions> = {}) {
+  const {controller} = createController({
+    constrain: {xMin: 0, xMax: 1000, yMin: 0, yMax: 100},
+    reducedMotion: true,
+    ...overrides,
+  });
+  const xScale = scaleLinear().range([0, 500]);
+  const yScale = scaleLinear().range([50, 0]);
+  const overview = new Overview(controller, {xScale, yScale});
+  /** Drag the overview from `from` to `to`. */
+  const drag = (from: {x: number; y: number}, to: {x: number; y: number}) => {
+    overview.pointerDown(1, from);
+    overview.pointerMove(1, to);
+    overview.pointerUp(1);
+  };
+  return {controller, overview, xScale, yScale, drag};
+}
+
+
+describe('Overview', () => {
+  test('shows the constraint extent, with the viewport of the main view', () => {
+    const {overview, xScale, yScale} = createOverview();
+    expect(xScale.domain()).toEqual([0, 1000]);
+    expect(yScale.domain()).toEqual([0, 100]);
+    expect(overview.getViewport()).toEqual([[0, 50], [0, 50]]);
+    expect(overview.hitTest({x: 25, y: 25})).toBe('inside');
+    expect(overview.hitTest({x: 48, y: 25})).toBe('right');
+    expect(overview.hitTest({x: 100, y: 25})).toBe('outside');
+  });
+
+  test('pans the main view by dragging the viewport', () => {
+    const {controller, drag} = createOverview();
+    drag({x: 25, y: 25}, {x: 75, y: 10});
+    expectAxisDomain(controller, 0, [100, 200]);
+    expect(controller.getDomain()[1]).toEqual([0, 100]);
+  });
+
+  test('zooms the main view by dragging an edge, within the span limits', () => {
+    const {controller, overview, drag} = createOverview({maxZoom: {xSpan: 150}});
+    drag({x: 50, y: 25}, {x: 70, y: 25});
+    expectAxisDomain(controller, 0, [0, 140]);
+    // The span limits apply around the middle of the view, like in `setDomain`.
+    drag({x: 70, y: 25}, {x: 100, y: 25});
+    expectAxisDomain(controller, 0, [25, 175]);
+    // Dragging an edge past the other one is ignored.
+    overview.pointerDown(1, {x: 12.5, y: 25});
+    overview.pointerMove(1, {x: 90, y: 25});
+    overview.pointerUp(1);
+    expectAxisDomain(controller, 0, [25, 175]);
+  });
+
+  test('jumps to a position outside of the viewport, within the constraint', () => {
+    const {controller, overview, drag} = createOverview();
+    drag({x: 250, y: 25}, {x: 260, y: 25});
+    expectAxisDomain(controller, 0, [470, 570]);
+    overview.pointerDown(1, {x: 495, y: 25});
+    expectAxisDomain(controller, 0, [900, 1000]);
+  });
+
+  test('fits the overview to a constraint that grows', () => {
+    const {controller, overview, xScale} = createOverview();
+    controller.setOptions({
+      xScale: controller.getScales().xScale,
+      yScale: controller.getScales().yScale,
+      constrain: {xMin: 0, xMax: 2000},
+    });
+    overview.fit();
+    expect(xScale.domain()).toEqual([0, 2000]);
+    expect(overview.getViewport()).toEqual([[0, 25], [0, 50]]);
+  });
+});
+
+describe('useOverview', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('fits the overview to the constraint when it changes, without touching the scales during render', () => {
+    const mainXScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+    const mainYScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+    const xScale = scaleLinear().range([0, 500]);
+    const yScale = scaleLinear().range([50, 0]);
+    let renderedXDomain: number[] = [];
+    let renderCount = 0;
+    const {result, rerender} = renderHook((xMax: number) => {
+      const panZoom = usePanZoom({
+        xScale: mainXScale,
+        yScale: mainYScale,
+        constrain: {xMin: 0, xMax, yMin: 0, yMax: 100},
+      });
+      const overview = useOverview(panZoom, {xScale, yScale});
+      renderedXDomain = xScale.domain();
+      renderCount++;
+      return overview;
+    }, 1000);
+    expect(renderedXDomain).toEqual([0, 1000]);
+    expect(result.current.viewport).toEqual([[0, 50], [0, 50]]);
+    rerender(2000);
+    // The overview scales are fitted in the next frame, not during render.
+    expect(xScale.domain()).toEqual([0, 1000]);
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(renderedXDomain).toEqual([0, 2000]);
+    expect(result.current.viewport).toEqual([[0, 25], [0, 50]]);
+    // The same constraint, in a new object, doesn't render again.
+    const count = renderCount;
+    rerender(2000);
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(renderCount).toBe(count + 1);
+  });
+});
@@ -0,0 +1,864 @@
+import { scaleBand, scaleLinear, scaleLog, scaleUtc } from 'd3-scale';
+import { createBandIndexScale, easeLinear, PanZoomController, type IPanZoomEventMap, type IPanZoomOptions } from '~/index';
+import { createController, expectDomain } from './spec-utils';
+
+
+describe('PanZoomController', () => {
+  test('pans with a single pointer', () => {
+    const {xScale, yScale, controller} = createController();
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 400, y: 600});
+    expectDomain(xScale, [10, 110]);
+    expectDomain(yScale, [10, 110]);
+    controller.pointerUp(1);
+    expect(controller.gesture.inProgress).toBe(false);
+  });
+
+  test('ignores moves of pointers that were never pressed', () => {
+    const {xScale, controller} = createController();
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(2, {x: 0, y: 0});
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('zooms with the wheel', () => {
+    const {xScale, controller} = createController();
+    controller.wheelZoom({center: {x: 0, y: 0}, zoomRatio: 1.5});
+    expectDomain(xScale, [0, 50]);
+  });
+
+  test('notifies subscribers once per frame', () => {
+    const {controller, flushFrames} = createController();
+    const listener = jest.fn();
+    const unsubscribe = controller.subscribe(listener);
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 400, y: 500});
+    controller.pointerMove(1, {x: 300, y: 500});
+    flushFrames();
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+    controller.pointerMove(1, {x: 200, y: 500});
+    flushFrames();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('notifies subscribers when the constraint changes', () => {
+    const {controller, options, flushFrames} = createController({constrain: {xMin: 0, xMax: 100}});
+    const listener = jest.fn();
+    controller.subscribe(listener);
+    controller.setOptions({...options, constrain: {xMin: 0, xMax: 100}});
+    flushFrames();
+    expect(listener).not.toHaveBeenCalled();
+    controller.setOptions({...options, constrain: {xMin: 0, xMax: 200}});
+    flushFrames();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('registers and removes the move listener', () => {
+    const removeMoveListener = jest.fn();
+    let onPointerMove: ((pointerId: number, pos: {x: number; y: number}) => void) | undefined;
+    const {xScale, controller} = createController({
+      registerMoveListener: (callback) => {
+        onPointerMove = callback;
+        return removeMoveListener;
+      },
+    });
+    controller.pointerDown(1, {x: 500, y: 500});
+    onPointerMove?.(1, {x: 600, y: 500});
+    expectDomain(xScale, [-10, 90]);
+    controller.pointerUp(1);
+    expect(removeMoveListener).toHaveBeenCalledTimes(1);
+  });
+});
+
+
+describe('PanZoomController imperative view API', () => {
+  test('setDomain applies the constraint and span limits', () => {
+    const {xScale, yScale, controller} = createController({
+      constrain: {xMin: 0, xMax: 100},
+      minZoom: {ySpan: 10},
+    });
+    controller.setDomain([[-20, 30], [50, 52]]);
+    expectDomain(xScale, [0, 50]);
+    expectDomain(yScale, [46, 56]);
+  });
+
+  test('setDomain respects axis locks', () => {
+    const {xScale, yScale, controller} = createController({lockYAxis: true});
+    controller.setDomain([[10, 20], [10, 20]]);
+    expectDomain(xScale, [10, 20]);
+    expectDomain(yScale, [0, 100]);
+  });
+
+  test('panBy moves the view in pixels or domain units', () => {
+    const {xScale, yScale, controller} = createController();
+    controller.panBy({dx: 100, dy: 100});
+    expectDomain(xScale, [10, 110]);
+    expectDomain(yScale, [-10, 90]);
+    controller.panBy({dx: -10}, {units: 'domain'});
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('zoomBy zooms around the center', () => {
+    const {xScale, yScale, controller} = createController();
+    controller.zoomBy(2);
+    expectDomain(xScale, [25, 75]);
+    expectDomain(yScale, [25, 75]);
+    controller.zoomBy(0.5, {x: 0, y: 1000});
+    expectDomain(xScale, [25, 125]);
+    expectDomain(yScale, [25, 125]);
+  });
+
+  test('reset returns to the domain before the first interaction', () => {
+    const {xScale, yScale, controller} = createController();
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 0, y: 500});
+    controller.pointerUp(1);
+    controller.zoomBy(4);
+    controller.reset();
+    expectDomain(xScale, [0, 100]);
+    expectDomain(yScale, [0, 100]);
+  });
+
+  test('settles once a series of changes stops', () => {
+    jest.useFakeTimers({doNotFake: ['performance']});
+    try {
+      const onSettle = jest.fn();
+      const {controller} = createController();
+      controller.onSettle(onSettle);
+      controller.panBy({dx: 100});
+      jest.advanceTimersByTime(50);
+      controller.zoomBy(2);
+      controller.setDomain(controller.getDomain());
+      expect(onSettle).not.toHaveBeenCalled();
+      expect(controller.isAtRest).toBe(true);
+      jest.advanceTimersByTime(1000);
+      expect(onSettle).toHaveBeenCalledTimes(1);
+      const [[[x0, x1]], previousDomain] = onSettle.mock.calls[0] as [[number, number][], [number, number][]];
+      expect(x0).toBeCloseTo(35);
+      expect(x1).toBeCloseTo(85);
+      expect(previousDomain).toEqual([[0, 100], [0, 100]]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+
+describe('PanZoomController transitions', () => {
+  test('animates to the domain over the duration', async () => {
+    const {xScale, controller, tick} = createController();
+    const done = controller.transitionTo([[100, 200], [0, 100]], {duration: 100, easing: easeLinear});
+    tick(50);
+    expectDomain(xScale, [50, 150]);
+    tick(50);
+    expectDomain(xScale, [100, 200]);
+    await expect(done).resolves.toBe(true);
+  });
+
+  test('applies the constraint on every frame', () => {
+    const {xScale, controller, tick} = createController({constrain: {xMax: 120}});
+    void controller.transitionTo([[100, 200], [0, 100]], {duration: 100, easing: easeLinear});
+    tick(100);
+    expectDomain(xScale, [20, 120]);
+  });
+
+  test('is interrupted by a new pointer', async () => {
+    const {xScale, controller, tick} = createController();
+    const done = controller.transitionTo([[100, 200], [0, 100]], {duration: 100, easing: easeLinear});
+    tick(50);
+    controller.pointerDown(1, {x: 0, y: 0});
+    tick(50);
+    expectDomain(xScale, [50, 150]);
+    await expect(done).resolves.toBe(false);
+  });
+
+  test('jumps to the end when reduced motion is preferred', () => {
+    const {xScale, controller} = createController({reducedMotion: true});
+    void controller.transitionTo([[100, 200], [0, 100]], {duration: 100});
+    expectDomain(xScale, [100, 200]);
+  });
+
+  test('follows the smooth zoom path', () => {
+    const {xScale, controller, tick} = createController();
+    void controller.transitionTo([[1000, 1100], [0, 100]], {smooth: true, duration: 100, easing: easeLinear});
+    tick(50);
+    // Half way along a long pan, the view has zoomed out.
+    const [x0, x1] = xScale.domain();
+    expect(x1 - x0).toBeGreaterThan(100);
+    expect((x0 + x1) / 2).toBeCloseTo(550);
+    tick(50);
+    expectDomain(xScale, [1000, 1100]);
+  });
+});
+
+
+describe('PanZoomController momentum', () => {
+  /** Drag from x=500 to x=400 over 50ms, then release. */
+  function fling (controller: PanZoomController, tick: (ms: number) => void) {
+    controller.pointerDown(1, {x: 500, y: 500});
+    for (let i = 1; i <= 5; i++) {
+      tick(10);
+      controller.pointerMove(1, {x: 500 - (i * 20), y: 500});
+    }
+    controller.pointerUp(1);
+  }
+
+  test('keeps panning after release', () => {
+    const {xScale, controller, tick} = createController({momentum: true});
+    fling(controller, tick);
+    expectDomain(xScale, [10, 110]);
+    tick(16);
+    const [x0] = xScale.domain();
+    expect(x0).toBeGreaterThan(10);
+    for (let i = 0; i < 200; i++) tick(16);
+    const [x0Final] = xScale.domain();
+    expect(x0Final).toBeGreaterThan(x0);
+  });
+
+  test('keeps zooming after a pinch is released one pointer at a time', () => {
+    const {xScale, controller, tick} = createController({momentum: true});
+    controller.pointerDown(1, {x: 400, y: 500});
+    controller.pointerDown(2, {x: 600, y: 500});
+    for (let i = 1; i <= 5; i++) {
+      tick(10);
+      controller.pointerMove(1, {x: 400 - (i * 20), y: 500});
+      controller.pointerMove(2, {x: 600 + (i * 20), y: 500});
+    }
+    tick(10);
+    controller.pointerUp(2);
+    tick(10);
+    controller.pointerUp(1);
+    const [x0, x1] = xScale.domain();
+    for (let i = 0; i < 10; i++) tick(16);
+    const [x0Final, x1Final] = xScale.domain();
+    expect(x1Final - x0Final).toBeLessThan(x1 - x0);
+    // It zooms around the center of the pinch.
+    expect(x0Final + x1Final).toBeCloseTo(x0 + x1);
+  });
+
+  test('does not glide without the option', () => {
+    const {xScale, controller, tick} = createController();
+    fling(controller, tick);
+    for (let i = 0; i < 10; i++) tick(16);
+    expectDomain(xScale, [10, 110]);
+  });
+
+  test('does not glide when the pointer is cancelled', () => {
+    const {xScale, controller, tick} = createController({momentum: true});
+    controller.pointerDown(1, {x: 500, y: 500});
+    for (let i = 1; i <= 5; i++) {
+      tick(10);
+      controller.pointerMove(1, {x: 500 - (i * 20), y: 500});
+    }
+    controller.pointerCancel(1);
+    expect(controller.isAtRest).toBe(true);
+    for (let i = 0; i < 10; i++) tick(16);
+    expectDomain(xScale, [10, 110]);
+  });
+
+  test('decelerates to rest at the constraint edge', () => {
+    const {xScale, controller, tick} = createController({
+      momentum: {friction: 0.01},
+      constrain: {xMin: 0, xMax: 120},
+    });
+    fling(controller, tick);
+    let previousX0 = 10;
+    for (let i = 0; i < 500; i++) {
+      tick(16);
+      const [x0] = xScale.domain();
+      expect(x0).toBeGreaterThanOrEqual(previousX0);
+      previousX0 = x0;
+    }
+    expect(previousX0).toBeLessThanOrEqual(20);
+    expect(previousX0).toBeGreaterThan(19);
+  });
+
+  test('is cancelled by a new pointer', () => {
+    const {xScale, controller, tick} = createController({momentum: true});
+    fling(controller, tick);
+    tick(16);
+    controller.pointerDown(2, {x: 0, y: 0});
+    const domain = xScale.domain();
+    tick(16);
+    expect(xScale.domain()).toEqual(domain);
+  });
+});
+
+
+describe('PanZoomController elastic mode', () => {
+  test('pans past the constraint with resistance, then springs back', () => {
+    const {xScale, controller, tick} = createController({
+      elastic: {duration: 100},
+      constrain: {xMin: 0, xMax: 100},
+    });
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 600, y: 500});
+    const [x0, x1] = xScale.domain();
+    expect(x0).toBeLessThan(0);
+    expect(x0).toBeGreaterThan(-10);
+    expect(x1 - x0).toBeCloseTo(100);
+    controller.pointerUp(1);
+    tick(50);
+    const [x0Halfway] = xScale.domain();
+    expect(x0Halfway).toBeGreaterThan(x0);
+    expect(x0Halfway).toBeLessThan(0);
+    tick(50);
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('pans hard against the constraint when not elastic', () => {
+    const {xScale, controller} = createController({constrain: {xMin: 0, xMax: 100}});
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 600, y: 500});
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('wheel zooms past the span limit, then springs back when the wheel is idle', () => {
+    jest.useFakeTimers({doNotFake: ['performance']});
+    try {
+      const {xScale, controller, tick} = createController({
+        elastic: {duration: 100},
+        maxZoom: {xSpan: 100},
+      });
+      controller.wheelZoom({center: {x: 500, y: 500}, zoomRatio: 0.8});
+      const [x0, x1] = xScale.domain();
+      expect(x1 - x0).toBeGreaterThan(100);
+      expect(x1 - x0).toBeLessThan(120);
+      jest.runOnlyPendingTimers();
+      tick(100);
+      expectDomain(xScale, [0, 100]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('PanZoomController span limits', () => {
+  test('measures spans in decades on log scales', () => {
+    const xScale = scaleLog().domain([1, 1000]).range([0, 1000]);
+    const {controller} = createController({
+      xScale,
+      minZoom: {xSpan: 1, units: 'transformed'},
+      maxZoom: {xSpan: 6, units: 'transformed'},
+    });
+    const decades = () => Math.log10(xScale.domain()[1] / xScale.domain()[0]);
+    controller.zoomBy(0.01);
+    expect(decades()).toBeCloseTo(6);
+    controller.zoomBy(1000);
+    expect(decades()).toBeCloseTo(1);
+    controller.setDomain([[1, 1e9], [0, 100]]);
+    expect(decades()).toBeCloseTo(6);
+  });
+});
+
+describe('PanZoomController snap', () => {
+  test('snaps to whole bands when the view settles', () => {
+    const xScale = createBandIndexScale(scaleBand(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'], [0, 1000]));
+    const onSettle = jest.fn();
+    const {controller} = createController({
+      xScale,
+      snap: ([xDomain, yDomain]) => [xScale.snapDomain(xDomain), yDomain],
+      reducedMotion: true,
+    });
+    controller.onSettle(onSettle);
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 460, y: 500});
+    controller.pointerUp(1);
+    expect(xScale.domain()).toEqual([0, 10]);
+    expect(onSettle).toHaveBeenCalledTimes(1);
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 440, y: 500});
+    controller.pointerUp(1);
+    expect(xScale.domain()).toEqual([1, 11]);
+  });
+});
+
+describe('PanZoomController zoom anchors', () => {
+  test('keeps the anchored edge fixed on wheel zooms, wherever the cursor is', () => {
+    const {xScale, yScale, controller} = createController({anchor: {x: 'max'}});
+    controller.wheelZoom({center: {x: 200, y: 500}, zoomRatio: 1.5});
+    expectDomain(xScale, [50, 100]);
+    expectDomain(yScale, [25, 75]);
+    controller.wheelZoom({center: {x: 800, y: 500}, zoomRatio: 0.5});
+    expectDomain(xScale, [25, 100]);
+  });
+
+  test('zooms programmatically around the center or a domain value', () => {
+    const {xScale, yScale, controller} = createController({anchor: {x: {value: 20}, y: 'center'}});
+    controller.zoomBy(2, {x: 900, y: 100});
+    expectDomain(xScale, [10, 60]);
+    expectDomain(yScale, [25, 75]);
+  });
+
+  test('follows the cursor where a function anchor returns undefined', () => {
+    const anchor = jest.fn(() => undefined);
+    const {xScale, controller} = createController({anchor: {x: anchor}});
+    controller.zoomBy(2, {x: 0, y: 500});
+    expectDomain(xScale, [0, 50]);
+    expect(anchor).toHaveBeenCalledWith(expect.objectContaining({position: 0}));
+  });
+
+  test('pinches around the anchor without panning the anchored axis', () => {
+    const {xScale, controller} = createController({anchor: {x: 'min'}});
+    controller.pointerDown(1, {x: 400, y: 500});
+    controller.pointerDown(2, {x: 600, y: 500});
+    controller.pointerMove(1, {x: 250, y: 500});
+    controller.pointerMove(2, {x: 850, y: 500});
+    expectDomain(xScale, [0, 100 / 3]);
+    controller.pointerUp(1);
+    controller.pointerUp(2);
+  });
+
+  test('pans with a single pointer, whatever the anchor', () => {
+    const {xScale, controller} = createController({anchor: {x: 'max'}});
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 400, y: 500});
+    expectDomain(xScale, [10, 110]);
+    controller.pointerUp(1);
+  });
+});
+
+describe('PanZoomController controlled mode', () => {
+  test('proposes changes through onChange without touching the scales', () => {
+    const onChange = jest.fn();
+    const {xScale, yScale, controller} = createController({domain: [[0, 100], [0, 100]], onChange});
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 400, y: 500});
+    expectDomain(xScale, [0, 100]);
+    expectDomain(yScale, [0, 100]);
+    expect(controller.getDomain()).toEqual([[0, 100], [0, 100]]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const [[nextXDomain, nextYDomain], meta] = onChange.mock.calls[0] as [number[][], unknown];
+    expect(nextXDomain[0]).toBeCloseTo(10);
+    expect(nextXDomain[1]).toBeCloseTo(110);
+    expect(nextYDomain).toEqual([0, 100]);
+    expect(meta).toEqual({type: 'pan', x: true, y: false});
+  });
+
+  test('shows the domain that is passed back', () => {
+    const domainChanges: unknown[] = [];
+    const {xScale, controller, options} = createController({
+      domain: [[0, 100], [0, 100]],
+      onChange: ([nextXDomain, nextYDomain]) => {
+        // Accept the change, but only in whole units.
+        const [x0, x1] = nextXDomain.map(Math.round);
+        controller.setOptions({...options, domain: [[x0, x1], nextYDomain]});
+      },
+    });
+    controller.onDomainChange((domain) => domainChanges.push(domain));
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 396, y: 500});
+    expectDomain(controller.getScales().xScale, [10, 110]);
+    // The gesture continues from where it started, not from the modified domain.
+    controller.pointerMove(1, {x: 380, y: 500});
+    expectDomain(controller.getScales().xScale, [12, 112]);
+    expect(domainChanges).toHaveLength(2);
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('keeps its copies of the scales while the same scales and domain are passed back', () => {
+    const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+    const {yScale, controller, options} = createController({xScale, domain: [[0, 100], [0, 100]]});
+    const onDomainChange = jest.fn();
+    controller.onDomainChange(onDomainChange);
+    const scales = controller.getScales();
+    controller.setOptions({...options, domain: [[0, 100], [0, 100]]});
+    expect(controller.getScales().xScale).toBe(scales.xScale);
+    controller.setOptions({...options, domain: [[10, 60], [0, 100]]});
+    expect(controller.getScales().xScale).toBe(scales.xScale);
+    expect(controller.getScales().yScale).toBe(scales.yScale);
+    expectDomain(scales.xScale, [10, 60]);
+    expect(onDomainChange).toHaveBeenCalledTimes(1);
+    // New scales, or new ranges, are copied again.
+    xScale.range([0, 500]);
+    controller.setOptions({...options, domain: [[10, 60], [0, 100]]});
+    expect(controller.getScales().xScale).not.toBe(scales.xScale);
+    expect(controller.getScales().xScale.range()).toEqual([0, 500]);
+    controller.setOptions({...options, yScale: yScale.copy(), domain: [[10, 60], [0, 100]]});
+    expect(controller.getScales().yScale).not.toBe(scales.yScale);
+    expectDomain(controller.getScales().yScale, [0, 100]);
+    expect(onDomainChange).toHaveBeenCalledTimes(1);
+  });
+
+  test('notifies subscribers when a new domain is passed in', () => {
+    const {controller, options, flushFrames} = createController({domain: [[0, 100], [0, 100]]});
+    const listener = jest.fn();
+    controller.subscribe(listener);
+    controller.setOptions({...options, domain: [[0, 100], [0, 100]]});
+    flushFrames();
+    expect(listener).not.toHaveBeenCalled();
+    controller.setOptions({...options, domain: [[10, 60], [0, 100]]});
+    flushFrames();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  test('stays put when a change is rejected', () => {
+    const {controller} = createController({domain: [[0, 100], [0, 100]], onChange: () => undefined});
+    controller.wheelZoom({center: {x: 500, y: 500}, zoomRatio: 0.5});
+    controller.zoomBy(2);
+    controller.panBy({dx: 100});
+    expect(controller.getDomain()).toEqual([[0, 100], [0, 100]]);
+  });
+
+  test('reports what changed the view', () => {
+    const onChange = jest.fn();
+    const {controller} = createController({onChange});
+    controller.wheelZoom({center: {x: 500, y: 500}, zoomRatio: 0.5});
+    controller.setDomain([[0, 50], [20, 30]]);
+    controller.pointerDown(1, {x: 0, y: 0});
+    controller.pointerDown(2, {x: 200, y: 200});
+    controller.pointerMove(2, {x: 400, y: 400});
+    expect(onChange.mock.calls.map(([, meta]: [unknown, unknown]) => meta)).toEqual([
+      {type: 'wheel', x: true, y: true},
+      {type: 'api', x: true, y: true},
+      {type: 'zoom', x: true, y: true},
+    ]);
+  });
+});
+
+describe('PanZoomController box zoom', () => {
+  test('zooms into the box on release', () => {
+    const {xScale, yScale, controller} = createController();
+    controller.pointerDown(1, {x: 200, y: 200}, {boxZoom: true});
+    controller.pointerMove(1, {x: 600, y: 400});
+    expect(controller.getZoomBox()).toEqual({
+      range: [[200, 600], [200, 400]],
+      domain: [[20, 60], [60, 80]],
+    });
+    // The view is not changed until the release.
+    expectDomain(xScale, [0, 100]);
+    controller.pointerUp(1);
+    expect(controller.getZoomBox()).toBeUndefined();
+    expectDomain(xScale, [20, 60]);
+    expectDomain(yScale, [60, 80]);
+  });
+
+  test('ignores other pointers while the box is dragged', () => {
+    const {xScale, controller} = createController();
+    controller.pointerDown(1, {x: 200, y: 200}, {boxZoom: true});
+    controller.pointerDown(2, {x: 0, y: 0});
+    controller.pointerMove(2, {x: 100, y: 100});
+    controller.pointerUp(2);
+    expectDomain(xScale, [0, 100]);
+    expect(controller.gesture.inProgress).toBe(false);
+    expect(controller.getZoomBox()).toBeDefined();
+  });
+
+  test('ignores a tiny box, or a cancelled one', () => {
+    const {xScale, controller} = createController();
+    controller.pointerDown(1, {x: 200, y: 200}, {boxZoom: true});
+    controller.pointerMove(1, {x: 203, y: 400});
+    controller.pointerUp(1);
+    expectDomain(xScale, [0, 100]);
+    controller.pointerDown(1, {x: 200, y: 200}, {boxZoom: true});
+    controller.pointerMove(1, {x: 600, y: 400});
+    controller.cancelBoxZoom();
+    controller.pointerUp(1);
+    expectDomain(xScale, [0, 100]);
+    controller.pointerDown(1, {x: 200, y: 200}, {boxZoom: true});
+    controller.pointerMove(1, {x: 600, y: 400});
+    controller.pointerCancel(1);
+    expect(controller.getZoomBox()).toBeUndefined();
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('selects a band of the x domain, clamped to minZoom', () => {
+    const {xScale, yScale, controller} = createController({
+      boxZoom: {axis: 'x'},
+      minZoom: {xSpan: 10},
+    });
+    controller.pointerDown(1, {x: 500, y: 200}, {boxZoom: true});
+    controller.pointerMove(1, {x: 550, y: 210});
+    controller.pointerUp(1);
+    expectDomain(xScale, [47.5, 57.5]);
+    expectDomain(yScale, [0, 100]);
+  });
+});
+
+describe('PanZoomController keyboard navigation', () => {
+  test('pans with the arrow keys, with bigger steps with Shift', () => {
+    const {xScale, yScale, controller} = createController({keyboard: {panStep: 100}});
+    expect(controller.keyDown({key: 'ArrowRight'})).toBe(true);
+    expectDomain(xScale, [10, 110]);
+    controller.keyDown({key: 'ArrowLeft', shiftKey: true});
+    expectDomain(xScale, [-30, 70]);
+    controller.keyDown({key: 'ArrowUp'});
+    expectDomain(yScale, [10, 110]);
+    expect(controller.keyDown({key: 'a'})).toBe(false);
+  });
+
+  test('zooms around the hovered position, or the center of the view', () => {
+    const {xScale, controller} = createController({keyboard: {zoomFactor: 2}});
+    controller.keyDown({key: '+'});
+    expectDomain(xScale, [25, 75]);
+    controller.hover({x: 0, y: 0});
+    controller.keyDown({key: '-'});
+    expectDomain(xScale, [25, 125]);
+    controller.hover(undefined);
+    controller.keyDown({key: 'PageUp', shiftKey: true});
+    expectDomain(xScale, [71.875, 78.125]);
+  });
+
+  test('applies the constraint and span limits, and resets with Home', () => {
+    const {xScale, controller} = createController({
+      constrain: {xMin: 0, xMax: 150},
+      maxZoom: {xSpan: 120},
+    });
+    controller.keyDown({key: 'ArrowLeft'});
+    expectDomain(xScale, [0, 100]);
+    controller.keyDown({key: 'PageDown', shiftKey: true});
+    expect(xScale.domain()[1] - xScale.domain()[0]).toBeCloseTo(120);
+    controller.keyDown({key: 'Home'});
+    expectDomain(xScale, [0, 100]);
+  });
+});
+
+describe('PanZoomController double tap', () => {
+  const tap = (
+    {controller, tick}: ReturnType<typeof createController>,
+    pos: {x: number; y: number},
+    opts?: {shiftKey?: boolean},
+  ) => {
+    controller.pointerDown(1, pos, opts);
+    tick(50);
+    controller.pointerUp(1);
+    tick(50);
+  };
+
+  test('zooms in around the double tap, animated', () => {
+    const panZoom = createController({doubleTap: {duration: 100}});
+    const {xScale, tick} = panZoom;
+    tap(panZoom, {x: 0, y: 0});
+    expectDomain(xScale, [0, 100]);
+    tap(panZoom, {x: 5, y: 5});
+    tick(50);
+    expect(xScale.domain()[1]).toBeGreaterThan(50);
+    expect(xScale.domain()[1]).toBeLessThan(100);
+    tick(100);
+    expectDomain(xScale, [0.25, 50.25]);
+  });
+
+  test('zooms out with Shift, or with a two-finger tap', () => {
+    const panZoom = createController({doubleTap: {duration: 0}});
+    const {xScale, controller, tick} = panZoom;
+    tap(panZoom, {x: 500, y: 500});
+    tap(panZoom, {x: 500, y: 500}, {shiftKey: true});
+    expectDomain(xScale, [-50, 150]);
+    controller.pointerDown(1, {x: 400, y: 500});
+    controller.pointerDown(2, {x: 600, y: 500});
+    tick(50);
+    controller.pointerUp(1);
+    controller.pointerUp(2);
+    expectDomain(xScale, [-150, 250]);
+  });
+
+  test('is told apart from pans and slow taps', () => {
+    const panZoom = createController({doubleTap: {duration: 0}});
+    const {xScale, controller, tick} = panZoom;
+    // The first tap moves too far.
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 480, y: 500});
+    controller.pointerUp(1);
+    tap(panZoom, {x: 500, y: 500});
+    expectDomain(xScale, [2, 102]);
+    // The taps are too far apart in time.
+    tick(400);
+    tap(panZoom, {x: 500, y: 500});
+    expectDomain(xScale, [2, 102]);
+  });
+
+  test('stops zooming in at the minZoom span', () => {
+    const panZoom = createController({doubleTap: {duration: 0}, minZoom: {xSpan: 80}});
+    const {xScale} = panZoom;
+    tap(panZoom, {x: 500, y: 500});
+    tap(panZoom, {x: 500, y: 500});
+    expectDomain(xScale, [10, 90]);
+  });
+
+  test('is off by default', () => {
+    const panZoom = createController();
+    tap(panZoom, {x: 500, y: 500});
+    tap(panZoom, {x: 500, y: 500});
+    expectDomain(panZoom.xScale, [0, 100]);
+  });
+
+  test('ignores cancelled taps', () => {
+    const panZoom = createController({doubleTap: {duration: 0}});
+    const {xScale, controller, tick} = panZoom;
+    tap(panZoom, {x: 500, y: 500});
+    controller.pointerDown(1, {x: 500, y: 500});
+    tick(50);
+    controller.pointerCancel(1);
+    expectDomain(xScale, [0, 100]);
+    // The cancelled tap doesn't count as the first tap either.
+    tap(panZoom, {x: 500, y: 500});
+    expectDomain(xScale, [0, 100]);
+  });
+});
+
+describe('PanZoomController wheel', () => {
+  const center = {x: 500, y: 500};
+
+  test('zooms with a mouse wheel, and pans with trackpad swipes', () => {
+    const {xScale, controller} = createController();
+    controller.wheel({center, deltaY: -100, deltaMode: 0});
+    expect(xScale.domain()[1] - xScale.domain()[0]).toBeLessThan(100);
+    expect(xScale.domain()[0] + xScale.domain()[1]).toBeCloseTo(100);
+    const {xScale: xScale2, yScale: yScale2, controller: controller2} = createController();
+    controller2.wheel({center, deltaX: 20, deltaY: 10, deltaMode: 0});
+    expectDomain(xScale2, [2, 102]);
+    expectDomain(yScale2, [-1, 99]);
+  });
+
+  test('zooms with a pinch, more than with a mouse wheel of the same delta', () => {
+    const {xScale, controller} = createController();
+    controller.wheel({center, deltaY: -10, deltaMode: 0, ctrlKey: true});
+    const pinchSpan = xScale.domain()[1] - xScale.domain()[0];
+    const {xScale: xScale2, controller: controller2} = createController({wheel: {mode: 'pan'}});
+    controller2.wheel({center, deltaY: -10, deltaMode: 0, metaKey: true});
+    expect(pinchSpan).toBeLessThan(100);
+    expect(pinchSpan).toBeCloseTo(xScale2.domain()[1] - xScale2.domain()[0]);
+  });
+
+  test('pans with the mouse wheel in scroll-to-pan mode', () => {
+    const {xScale, yScale, controller} = createController({wheel: {mode: 'pan'}});
+    controller.wheel({center, deltaY: 3, deltaMode: 1});
+    expectDomain(yScale, [-4.8, 95.2]);
+    controller.wheel({center, deltaY: 100, deltaMode: 0, shiftKey: true});
+    expectDomain(xScale, [10, 110]);
+  });
+
+  test('applies sensitivity, constraint and axis locks', () => {
+    const {xScale, yScale, controller} = createController({
+      wheel: {sensitivity: {trackpad: 2}},
+      constrain: {xMax: 105},
+      lockYAxis: true,
+    });
+    controller.wheel({center, deltaX: 40, deltaY: 10, deltaMode: 0});
+    expectDomain(xScale, [5, 105]);
+    expectDomain(yScale, [0, 100]);
+  });
+});
+
+describe('PanZoomController events', () => {
+  function recordEvents (controller: PanZoomController, types: (keyof IPanZoomEventMap)[]) {
+    const events: {type: keyof IPanZoomEventMap; pointerCount: number; input: string}[] = [];
+    for (const type of types) {
+      controller.on(type, ({pointerCount, input}) => events.push({type, pointerCount, input}));
+    }
+    return events;
+  }
+
+  test('reports the lifecycle of a pointer gesture, with the pointer count', () => {
+    const {controller} = createController({momentum: false});
+    const events = recordEvents(controller, ['gesturestart', 'gestureend', 'pan', 'zoom']);
+    const onGestureEnd = jest.fn();
+    controller.on('gestureend', onGestureEnd);
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 400, y: 500});
+    controller.pointerDown(2, {x: 600, y: 500});
+    controller.pointerMove(2, {x: 700, y: 500});
+    controller.pointerUp(2);
+    controller.pointerUp(1);
+    expect(events).toEqual([
+      {type: 'gesturestart', pointerCount: 1, input: 'pointer'},
+      {type: 'pan', pointerCount: 1, input: 'pointer'},
+      {type: 'zoom', pointerCount: 2, input: 'pointer'},
+      {type: 'gestureend', pointerCount: 0, input: 'pointer'},
+    ]);
+    expect(onGestureEnd).toHaveBeenCalledWith(expect.objectContaining({
+      domain: controller.getDomain(),
+      previousDomain: [[0, 100], [0, 100]],
+    }));
+  });
+
+  test('reports a burst of wheel events as one gesture', () => {
+    jest.useFakeTimers({doNotFake: ['performance']});
+    try {
+      const {controller} = createController();
+      const events = recordEvents(controller, ['gesturestart', 'gestureend', 'zoom', 'wheel', 'settle']);
+      controller.wheelZoom({center: {x: 500, y: 500}, zoomRatio: 1.1});
+      jest.advanceTimersByTime(50);
+      controller.wheelZoom({center: {x: 500, y: 500}, zoomRatio: 1.1});
+      jest.advanceTimersByTime(1000);
+      expect(events.map(({type}) => type)).toEqual([
+        'gesturestart', 'zoom', 'wheel', 'zoom', 'wheel', 'gestureend', 'settle',
+      ]);
+      expect(events.every(({input}) => input === 'wheel')).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('reports reaching the constraint and the span limits once', () => {
+    const {controller} = createController({constrain: {xMax: 105}, minZoom: {xSpan: 10}});
+    const onConstrained = jest.fn();
+    const onLimitReached = jest.fn();
+    controller.on('constrained', onConstrained);
+    controller.on('limitReached', onLimitReached);
+    controller.panBy({dx: 100});
+    controller.panBy({dx: 100});
+    controller.panBy({dx: -10});
+    expect(onConstrained).toHaveBeenCalledTimes(1);
+    expect(onConstrained).toHaveBeenCalledWith(expect.objectContaining({edges: ['xMax'], input: 'api'}));
+    controller.zoomBy(100);
+    controller.zoomBy(2);
+    expect(onLimitReached).toHaveBeenCalledTimes(1);
+    expect(onLimitReached).toHaveBeenCalledWith(expect.objectContaining({limits: {x: 'minZoom'}}));
+  });
+});
+
+describe('PanZoomController time scales', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const start = new Date(Date.UTC(2024, 0, 1));
+  const end = new Date(Date.UTC(2024, 0, 11));
+
+  function createTimeController (overrides: Partial<IPanZoomOptions<Date, number>> = {}) {
+    return createController<Date, number>({
+      xScale: scaleUtc().domain([start, end]).range([0, 1000]),
+      reducedMotion: true,
+      ...overrides,
+    });
+  }
+
+  test('keeps Date domains, and returns Dates', () => {
+    const {xScale, controller} = createTimeController();
+    const domainChanges: Date[][] = [];
+    controller.onDomainChange(([xDomain]) => domainChanges.push([...xDomain]));
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 400, y: 500});
+    controller.pointerUp(1);
+    expect(xScale.domain()[0]).toBeInstanceOf(Date);
+    const [[x0, x1], [y0, y1]] = controller.getDomain();
+    expect(x0).toEqual(new Date(start.getTime() + DAY));
+    expect(x1).toEqual(new Date(end.getTime() + DAY));
+    expect([y0, y1]).toEqual([0, 100]);
+    expect(domainChanges).toEqual([[x0, x1]]);
+  });
+
+  test('accepts Date constraints and domains', () => {
+    const {xScale, controller} = createTimeController({constrain: {xMin: start}});
+    controller.panBy({dx: -100});
+    expect(xScale.domain()).toEqual([start, end]);
+    controller.setDomain([[new Date(start.getTime() + DAY), end], [0, 100]]);
+    expect(xScale.domain()).toEqual([new Date(start.getTime() + DAY), end]);
+  });
+
+  test('takes spans as durations in milliseconds', () => {
+    const {xScale, controller} = createTimeController({minZoom: {xSpan: 2 * DAY}});
+    controller.zoomBy(100);
+    const [x0, x1] = xScale.domain();
+    expect(x1.getTime() - x0.getTime()).toBeCloseTo(2 * DAY);
+  });
+
+  test('proposes Dates in controlled mode', () => {
+    const onChange = jest.fn();
+    const {controller} = createTimeController({domain: [[start, end], [0, 100]], onChange});
+    controller.panBy({dx: -100});
+    expect(onChange).toHaveBeenCalledWith(
+      [[new Date(start.getTime() - DAY), new Date(end.getTime() - DAY)], [0, 100]],
+      {type: 'api', x: true, y: false},
+    );
+  });
+});
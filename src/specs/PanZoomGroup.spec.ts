@@ -0,0 +1,84 @@
+import { scaleLog } from 'd3-scale';
+import { PanZoomGroup } from '~/index';
+import { createController, expectDomain } from './spec-utils';
+
+
+describe('PanZoomGroup', () => {
+  test('propagates the x domain to the other members', () => {
+    const group = new PanZoomGroup({mode: 'x'});
+    const a = createController();
+    const b = createController();
+    group.add(a.controller);
+    group.add(b.controller);
+    a.controller.pointerDown(1, {x: 500, y: 500});
+    a.controller.pointerMove(1, {x: 400, y: 400});
+    expectDomain(b.xScale, [10, 110]);
+    expectDomain(b.yScale, [0, 100]);
+    // And back the other way.
+    b.controller.panBy({dx: -100});
+    expectDomain(a.xScale, [0, 100]);
+  });
+
+  test('supports per-member modes', () => {
+    const group = new PanZoomGroup();
+    const a = createController();
+    const b = createController();
+    const c = createController();
+    group.add(a.controller);
+    group.add(b.controller, {mode: 'xy'});
+    group.add(c.controller, {mode: 'y'});
+    a.controller.setDomain([[10, 20], [30, 40]]);
+    expectDomain(b.xScale, [10, 20]);
+    expectDomain(b.yScale, [30, 40]);
+    expectDomain(c.xScale, [0, 100]);
+    expectDomain(c.yScale, [30, 40]);
+  });
+
+  test('propagates only the zoom level in zoom mode', () => {
+    const group = new PanZoomGroup({mode: 'zoom'});
+    const a = createController();
+    const b = createController();
+    b.controller.setDomain([[100, 200], [0, 100]]);
+    group.add(a.controller);
+    group.add(b.controller);
+    a.controller.zoomBy(2, {x: 0, y: 1000});
+    expectDomain(a.xScale, [0, 50]);
+    expectDomain(b.xScale, [125, 175]);
+    expectDomain(b.yScale, [25, 75]);
+  });
+
+  test('measures the zoom level where the scales are linear in zoom mode', () => {
+    const group = new PanZoomGroup({mode: 'zoom'});
+    const a = createController({xScale: scaleLog().domain([1, 10000]).range([0, 1000])});
+    const b = createController();
+    group.add(a.controller);
+    group.add(b.controller);
+    a.controller.zoomBy(2, {x: 0, y: 1000});
+    expectDomain(a.xScale, [1, 100]);
+    expectDomain(b.xScale, [25, 75]);
+  });
+
+  test('each member keeps its own constraint and locks', () => {
+    const group = new PanZoomGroup({mode: 'xy'});
+    const a = createController();
+    const b = createController({constrain: {xMax: 105}, lockYAxis: true});
+    group.add(a.controller);
+    group.add(b.controller);
+    a.controller.setDomain([[10, 110], [10, 110]]);
+    expectDomain(b.xScale, [5, 105]);
+    expectDomain(b.yScale, [0, 100]);
+    // The constrained member does not push its own domain back.
+    expectDomain(a.xScale, [10, 110]);
+  });
+
+  test('stops propagating to removed members', () => {
+    const group = new PanZoomGroup();
+    const a = createController();
+    const b = createController();
+    group.add(a.controller);
+    const remove = group.add(b.controller);
+    remove();
+    a.controller.panBy({dx: 100});
+    expectDomain(b.xScale, [0, 100]);
+  });
+});
@@ -0,0 +1,67 @@
+import { scaleLog, scaleUtc } from 'd3-scale';
+import { Scrollbar, type IPanZoomOptions } from '~/index';
+import { createController, expectAxisDomain } from './spec-utils';
+
+
+function createScrollbar (overrides: Partial<IPanZoomOptions<number | Date>> = {}, axis: 'x' | 'y' = 'x') {
+  const {controller} = createController<number | Date>({
+    constrain: {xMin: 0, xMax: 1000},
+    reducedMotion: true,
+    ...overrides,
+  });
+  const scrollbar = new Scrollbar(controller, {axis, length: 500});
+  /** Drag along the track from `from` to `to`. */
+  const drag = (from: number, to: number) => {
+    scrollbar.pointerDown(1, from);
+    scrollbar.pointerMove(1, to);
+    scrollbar.pointerUp(1);
+  };
+  return {controller, scrollbar, drag};
+}
+
+describe('Scrollbar', () => {
+  test('places the thumb by the domain within the constraint', () => {
+    const {controller, scrollbar} = createScrollbar();
+    expect(scrollbar.getThumb()).toEqual({start: 0, size: 50});
+    controller.setDomain([[450, 550], [0, 100]]);
+    expect(scrollbar.getThumb()).toEqual({start: 225, size: 50});
+    expect(scrollbar.hitTest(100)).toBe('before');
+    expect(scrollbar.hitTest(228)).toBe('start');
+    expect(scrollbar.hitTest(250)).toBe('thumb');
+    expect(scrollbar.hitTest(274)).toBe('end');
+    expect(scrollbar.hitTest(400)).toBe('after');
+  });
+
+  test('pans by dragging the thumb, zooms by dragging its ends, and pages on the track', () => {
+    const {controller, drag} = createScrollbar();
+    drag(25, 70);
+    expectAxisDomain(controller, 0, [90, 190]);
+    drag(95, 145);
+    expectAxisDomain(controller, 0, [90, 290]);
+    // The track pages by one view, within the constraint.
+    drag(450, 450);
+    expectAxisDomain(controller, 0, [290, 490]);
+    drag(20, 20);
+    expectAxisDomain(controller, 0, [90, 290]);
+    expectAxisDomain(controller, 1, [0, 100]);
+  });
+
+  test('measures log scales in decades, with the largest values at the top of a flipped range', () => {
+    const {controller, scrollbar, drag} = createScrollbar({
+      yScale: scaleLog().domain([1, 10]).range([400, 0]),
+      constrain: {yMin: 1, yMax: 10000},
+    }, 'y');
+    expect(scrollbar.getThumb()).toEqual({start: 375, size: 125});
+    drag(400, 275);
+    expectAxisDomain(controller, 1, [10, 100]);
+  });
+
+  test('moves time scales in milliseconds', () => {
+    const {controller, drag} = createScrollbar({
+      xScale: scaleUtc().domain([new Date(0), new Date(100)]).range([0, 1000]),
+      constrain: {xMin: new Date(0), xMax: new Date(1000)},
+    });
+    drag(25, 70);
+    expect(controller.getDomain()[0]).toEqual([new Date(90), new Date(190)]);
+  });
+});
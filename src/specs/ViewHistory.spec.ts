@@ -0,0 +1,102 @@
+import { ViewHistory } from '~/index';
+import { createController, expectDomain } from './spec-utils';
+
+
+function createHistory (maxLength?: number) {
+  const {xScale, yScale, controller, drag} = createController({reducedMotion: true});
+  const history = new ViewHistory(controller, {maxLength});
+  return {xScale, yScale, controller, history, drag};
+}
+
+
+describe('ViewHistory', () => {
+  test('records a snapshot at the end of each gesture', () => {
+    const {xScale, history, drag} = createHistory();
+    expect(history.canGoBack).toBe(false);
+    drag(-100);
+    drag(-100);
+    expect(history.length).toBe(3);
+    history.back();
+    expectDomain(xScale, [10, 110]);
+    history.back();
+    expectDomain(xScale, [0, 100]);
+    expect(history.canGoBack).toBe(false);
+    history.forward();
+    history.forward();
+    expectDomain(xScale, [20, 120]);
+    expect(history.canGoForward).toBe(false);
+  });
+
+  test('ignores gestures that did not change the view', () => {
+    const {history, drag} = createHistory();
+    drag(0);
+    expect(history.length).toBe(0);
+    drag(-100);
+    drag(0);
+    expect(history.length).toBe(2);
+  });
+
+  test('a new view discards the forward entries', () => {
+    const {xScale, history, drag} = createHistory();
+    drag(-100);
+    drag(-100);
+    history.back();
+    drag(100);
+    expectDomain(xScale, [0, 100]);
+    expect(history.canGoForward).toBe(false);
+    expect(history.length).toBe(3);
+  });
+
+  test('coalesces a wheel burst into one entry', () => {
+    jest.useFakeTimers({doNotFake: ['performance']});
+    try {
+      const {controller, history} = createHistory();
+      controller.wheelZoom({center: {x: 500, y: 500}, zoomRatio: 1.1});
+      jest.advanceTimersByTime(50);
+      controller.wheelZoom({center: {x: 500, y: 500}, zoomRatio: 1.1});
+      expect(history.length).toBe(0);
+      jest.advanceTimersByTime(1000);
+      expect(history.length).toBe(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('records a series of changes through setDomain once', () => {
+    jest.useFakeTimers({doNotFake: ['performance']});
+    try {
+      const {xScale, controller, history} = createHistory();
+      controller.setDomain([[10, 110], [0, 100]]);
+      controller.setDomain([[20, 120], [0, 100]]);
+      jest.advanceTimersByTime(1000);
+      expect(history.length).toBe(2);
+      history.back();
+      jest.advanceTimersByTime(1000);
+      expectDomain(xScale, [0, 100]);
+      expect(history.canGoForward).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('is bounded', () => {
+    const {history, drag} = createHistory(3);
+    for (let i = 0; i < 5; i++) drag(-100);
+    expect(history.length).toBe(3);
+  });
+
+  test('applies entries through the current constraint', () => {
+    jest.useFakeTimers({doNotFake: ['performance']});
+    try {
+      const {xScale, yScale, controller, history, drag} = createHistory();
+      drag(-100);
+      controller.setOptions({xScale, yScale, constrain: {xMin: 5}});
+      history.back();
+      jest.advanceTimersByTime(1000);
+      expectDomain(xScale, [5, 105]);
+      expect(history.canGoForward).toBe(true);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/** @jest-environment jsdom */
+import { ViewUrlSync, serializeView, useViewUrlSync } from '~/index';
+import { createController, expectDomain, renderHook } from './spec-utils';
+
+
+function getView () {
+  return new URLSearchParams(location.search).get('view');
+}
+
+function setView (view: string | null) {
+  const url = new URL(location.href);
+  url.search = view === null ? '' : `view=${view}`;
+  history.replaceState(null, '', url);
+}
+
+/** Drag from x=500 to x=400 over 50ms, then release. */
+function fling (
+  controller: ReturnType<typeof createController>['controller'],
+  tick: (ms: number) => void,
+) {
+  controller.pointerDown(1, {x: 500, y: 500});
+  for (let i = 1; i <= 5; i++) {
+    tick(10);
+    controller.pointerMove(1, {x: 500 - (i * 20), y: 500});
+  }
+  controller.pointerUp(1);
+}
+
+
+describe('ViewUrlSync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setView(null);
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('restores the view from the URL', () => {
+    setView('10_60_20_70');
+    const {xScale, yScale, controller} = createController({reducedMotion: true});
+    const sync = new ViewUrlSync(controller);
+    expectDomain(xScale, [10, 60]);
+    expectDomain(yScale, [20, 70]);
+    sync.destroy();
+  });
+
+  test('ignores malformed views and views with another version', () => {
+    setView('10_60_20_70');
+    const {xScale, controller} = createController({reducedMotion: true});
+    const sync = new ViewUrlSync(controller, {version: '2'});
+    expectDomain(xScale, [0, 100]);
+    setView('2_10_abc_20_70');
+    expect(sync.restore()).toBe(false);
+    expectDomain(xScale, [0, 100]);
+    sync.destroy();
+  });
+
+  test('writes the view once it settles', () => {
+    const {xScale, yScale, controller} = createController({reducedMotion: true});
+    const sync = new ViewUrlSync(controller);
+    controller.panBy({dx: 100});
+    controller.panBy({dx: 100});
+    expect(getView()).toBeNull();
+    jest.advanceTimersByTime(1000);
+    expect(getView()).toBe(serializeView({xScale, yScale}));
+    expectDomain(xScale, [20, 120]);
+    sync.destroy();
+  });
+
+  test('does not write while the view is gliding', () => {
+    const {xScale, yScale, controller, tick} = createController({momentum: true});
+    const sync = new ViewUrlSync(controller);
+    fling(controller, tick);
+    for (let i = 0; i < 20; i++) {
+      tick(16);
+      jest.advanceTimersByTime(1000);
+    }
+    expect(controller.isAtRest).toBe(false);
+    expect(getView()).toBeNull();
+    for (let i = 0; i < 500 && !controller.isAtRest; i++) tick(16);
+    jest.advanceTimersByTime(1000);
+    expect(getView()).toBe(serializeView({xScale, yScale}));
+    sync.destroy();
+  });
+
+  test('does not write changes that do not settle', () => {
+    const {controller} = createController({reducedMotion: true});
+    const sync = new ViewUrlSync(controller);
+    controller.setDomain([[10, 60], [0, 100]], {settle: false});
+    jest.advanceTimersByTime(1000);
+    expect(getView()).toBeNull();
+    sync.destroy();
+  });
+
+  test('restores the view when navigating', () => {
+    const {xScale, controller} = createController({reducedMotion: true});
+    const sync = new ViewUrlSync(controller);
+    setView('10_60_0_100');
+    dispatchEvent(new PopStateEvent('popstate'));
+    expectDomain(xScale, [10, 60]);
+    sync.destroy();
+    setView('30_80_0_100');
+    dispatchEvent(new PopStateEvent('popstate'));
+    expectDomain(xScale, [10, 60]);
+  });
+
+  test('keeps the view in the hash', () => {
+    const {xScale, yScale, controller} = createController({reducedMotion: true});
+    const sync = new ViewUrlSync(controller, {target: 'hash', param: 'v'});
+    controller.panBy({dx: 100});
+    jest.advanceTimersByTime(1000);
+    expect(location.search).toBe('');
+    expect(new URLSearchParams(location.hash.slice(1)).get('v')).toBe(serializeView({xScale, yScale}));
+    sync.destroy();
+    history.replaceState(null, '', location.pathname);
+  });
+});
+
+describe('useViewUrlSync', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    setView(null);
+  });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('syncs the view while mounted', () => {
+    setView('10_60_0_100');
+    const {xScale, controller} = createController({reducedMotion: true});
+    const {unmount} = renderHook(useViewUrlSync, {controller});
+    expectDomain(xScale, [10, 60]);
+    controller.panBy({dx: 100});
+    jest.advanceTimersByTime(1000);
+    expect(getView()).toBe('15_65_0_100');
+    unmount();
+    controller.panBy({dx: 100});
+    jest.advanceTimersByTime(1000);
+    expect(getView()).toBe('15_65_0_100');
+  });
+});
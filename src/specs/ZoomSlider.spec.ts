@@ -0,0 +1,65 @@
+import { scaleLog } from 'd3-scale';
+import { ZoomSlider, type IPanZoomOptions, type IZoomSliderOptions } from '~/index';
+import { createController, expectAxisDomain } from './spec-utils';
+
+
+function createSlider (overrides: Partial<IPanZoomOptions<number | Date>> = {}, sliderOptions: IZoomSliderOptions = {}) {
+  const {controller} = createController<number | Date>({
+    minZoom: {xSpan: 1, ySpan: 1},
+    maxZoom: {xSpan: 10000, ySpan: 10000},
+    reducedMotion: true,
+    ...overrides,
+  });
+  const slider = new ZoomSlider(controller, sliderOptions);
+  return {controller, slider};
+}
+
+describe('ZoomSlider', () => {
+  test('maps the span onto a log scale between the span limits', () => {
+    const {controller, slider} = createSlider();
+    expect(slider.getPosition()).toBeCloseTo(0.5);
+    slider.setPosition(0.75);
+    expectAxisDomain(controller, 0, [45, 55]);
+    expectAxisDomain(controller, 1, [45, 55]);
+    expect(slider.getPosition()).toBeCloseTo(0.75);
+    slider.setPosition(2);
+    expectAxisDomain(controller, 0, [49.5, 50.5]);
+  });
+
+  test('zooms a single axis, around an anchor', () => {
+    const {controller, slider} = createSlider({}, {axis: 'x', anchor: {x: 'min'}});
+    slider.setPosition(0.75);
+    expectAxisDomain(controller, 0, [0, 10]);
+    expectAxisDomain(controller, 1, [0, 100]);
+  });
+
+  test('falls back to the constraint extent, and clamps like a wheel zoom', () => {
+    const {controller, slider} = createSlider({
+      constrain: {xMin: 0, xMax: 1000},
+      minZoom: {xSpan: 10},
+      maxZoom: undefined,
+    });
+    expect(slider.getPosition()).toBeCloseTo(0.5);
+    slider.setPosition(0);
+    expectAxisDomain(controller, 0, [0, 1000]);
+    expectAxisDomain(controller, 1, [-450, 550]);
+  });
+
+  test('measures spans in transformed units, e.g. decades', () => {
+    const {controller, slider} = createSlider({
+      yScale: scaleLog().domain([1, 10]).range([1000, 0]),
+      minZoom: {ySpan: 0.5, units: 'transformed'},
+      maxZoom: {ySpan: 8, units: 'transformed'},
+    }, {axis: 'y'});
+    expect(slider.getPosition()).toBeCloseTo(0.75);
+    slider.setPosition(1);
+    expectAxisDomain(controller, 1, [Math.pow(10, 0.25), Math.pow(10, 0.75)]);
+  });
+
+  test('has no position without span limits', () => {
+    const {controller, slider} = createSlider({minZoom: undefined, maxZoom: undefined});
+    expect(slider.getPosition()).toBeUndefined();
+    slider.setPosition(1);
+    expectAxisDomain(controller, 0, [0, 100]);
+  });
+});
@@ -0,0 +1,71 @@
+import { scaleBand, scalePoint } from 'd3-scale';
+import { createBandIndexScale } from '~/index';
+import { expectDomain } from './spec-utils';
+
+
+const letters = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H', 'I', 'J'];
+
+describe('createBandIndexScale', () => {
+  test('maps the indices of the categories to the range of the band scale', () => {
+    // The outer padding is half of the inner padding, so the bands span [i, i + 1].
+    const scale = createBandIndexScale(scaleBand(letters, [0, 1000]).paddingInner(0.2).paddingOuter(0.1));
+    expectDomain(scale, [0, 10]);
+    expect(scale.range()).toEqual([0, 1000]);
+    expect(scale(2.5)).toBeCloseTo(250);
+    expect(scale.invert(250)).toBeCloseTo(2.5);
+    expect(scale.index('C')).toBe(2);
+    expect(scale.band('C')).toBeCloseTo(210);
+    expect(scale.bandwidth()).toBeCloseTo(80);
+    expect(scale.band('Z')).toBeUndefined();
+  });
+
+  test('positions the bands at the current zoom, including fractional positions', () => {
+    const scale = createBandIndexScale(scaleBand(letters, [0, 1000]));
+    scale.domain([2.5, 5]);
+    expect(scale.band('C')).toBeCloseTo(-200);
+    expect(scale.bandwidth()).toBeCloseTo(400);
+    expect(scale.visible()).toEqual({start: 2, end: 5, categories: ['C', 'D', 'E']});
+  });
+
+  test('puts points in the middle of their bands', () => {
+    const scale = createBandIndexScale(scalePoint(letters, [0, 1000]));
+    expect(scale.domain()).toEqual([0.5, 9.5]);
+    expect(scale.band('A')).toBeCloseTo(0);
+    expect(scale.band('J')).toBeCloseTo(1000);
+    expect(scale.bandwidth()).toBe(0);
+  });
+
+  test('starts with the layout of the band scale, including the outer padding and alignment', () => {
+    const bandScales = [
+      scaleBand(letters, [0, 1000]).padding(0.1),
+      scaleBand(letters, [0, 1000]).paddingInner(0.2).paddingOuter(0.5).align(0.2),
+      scaleBand(letters, [1000, 0]).padding(0.1),
+      scalePoint(letters, [0, 1000]).padding(1).align(0.8),
+      scalePoint(letters, [1000, 0]).padding(0.5),
+    ];
+    for (const bandScale of bandScales) {
+      const scale = createBandIndexScale(bandScale);
+      expect(scale.range()).toEqual(bandScale.range());
+      for (const letter of letters) {
+        expect(scale.band(letter)).toBeCloseTo(bandScale(letter) ?? NaN);
+      }
+      expect(scale.bandwidth()).toBeCloseTo(bandScale.bandwidth());
+    }
+  });
+
+  test('copies are independent', () => {
+    const scale = createBandIndexScale(scaleBand(letters, [0, 1000]));
+    const copy = scale.copy();
+    copy.domain([0, 5]);
+    copy.range([0, 500]);
+    expect(scale.domain()).toEqual([0, 10]);
+    expect(scale.range()).toEqual([0, 1000]);
+    expect(copy.categories()).toEqual(letters);
+  });
+
+  test('snaps domains to whole bands', () => {
+    const scale = createBandIndexScale(scaleBand(letters, [0, 1000]));
+    expect(scale.snapDomain([2.4, 5.6])).toEqual([2, 6]);
+    expect(scale.snapDomain([2.4, 2.6])).toEqual([2, 3]);
+  });
+});
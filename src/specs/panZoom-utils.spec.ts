@@ -1,10 +1,23 @@
-import { scaleLinear } from 'd3-scale';
+import { scaleLinear, scaleLog, scalePow, scaleSymlog, scaleUtc } from 'd3-scale';
 import {
+  applyDomain,
   applyKTInverse,
   calcBbox,
   calcKT,
   calcKTs,
+  calcSpanLimitState,
+  calcZoomBox,
+  calcZoomState,
+  classifyWheel,
+  decreaseToSpan,
+  getScaleTransform,
+  increaseToSpan,
+  resolveZoomAnchor,
+  rubberBand,
+  setScaleDomain,
+  toScaleDomain,
   updateScales,
+  zoom,
 } from '~/index';
 
 
@@ -91,6 +104,102 @@ test('calcBbox', () => {
   });
 });
 
+test('rubberBand', () => {
+  expect(rubberBand(0, 1000, 0.55)).toBe(0);
+  expect(rubberBand(100, 1000, 0.55)).toBeCloseTo(52.13, 2);
+  expect(rubberBand(-100, 1000, 0.55)).toBeCloseTo(-52.13, 2);
+  // The travel never reaches the dimension.
+  expect(rubberBand(1e9, 1000, 0.55)).toBeLessThan(1000);
+});
+
+
+test('calcZoomBox', () => {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([500, 0]);
+  // Dragged up and to the left: the box is normalized, and the y domain keeps its orientation.
+  const box = calcZoomBox({xScale, yScale, start: {x: 600, y: 400}, end: {x: 200, y: 100}});
+  expect(box.range).toEqual([[200, 600], [100, 400]]);
+  box.domain.flat().forEach((value, i) => {
+    expect(value).toBeCloseTo([20, 60, 20, 80][i]);
+  });
+  expect(calcZoomBox({xScale, yScale, start: {x: 200, y: 100}, end: {x: 600, y: 400}, axis: 'x'}).range).toEqual([[200, 600], [0, 500]]);
+  expect(calcZoomBox({xScale, yScale, start: {x: 200, y: 100}, end: {x: 600, y: 400}, axis: 'y'}).range).toEqual([[0, 1000], [100, 400]]);
+  // The view is twice as wide as it is high, so the box grows to 600x300 from the start.
+  expect(calcZoomBox({
+    xScale,
+    yScale,
+    start: {x: 600, y: 400},
+    end: {x: 400, y: 100},
+    preserveAspectRatio: true,
+  }).range).toEqual([[0, 600], [100, 400]]);
+});
+
+test('calcZoomState', () => {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([500, 0]);
+  const options = {
+    xScale,
+    yScale,
+    factor: 2,
+    constraint: {xMin: 0, xMax: 200, yMin: 0, yMax: 100},
+    lockXAxis: false,
+    lockYAxis: false,
+    minZoom: undefined,
+    maxZoom: undefined,
+  };
+  expect(calcZoomState(options)).toEqual({
+    canZoomIn: true,
+    // The x axis can still zoom out, while the y axis already shows the whole constraint.
+    canZoomOut: true,
+    atXMin: true,
+    atXMax: false,
+    atYMin: true,
+    atYMax: true,
+  });
+  expect(calcZoomState({...options, minZoom: {xSpan: 100, ySpan: 100}})).toMatchObject({canZoomIn: false});
+  expect(calcZoomState({...options, lockXAxis: true})).toMatchObject({canZoomIn: true, canZoomOut: false});
+  expect(calcZoomState({...options, constraint: undefined})).toMatchObject({
+    canZoomOut: true,
+    atXMin: false,
+    atXMax: false,
+    atYMin: false,
+    atYMax: false,
+  });
+  // The zooms are anchored like those of `zoomBy`.
+  const anchor = jest.fn(() => 0);
+  calcZoomState({...options, anchor: {x: anchor}});
+  expect(anchor).toHaveBeenCalledWith({scale: xScale, position: 500});
+  // Descending domains are against the max edge on the left.
+  xScale.domain([200, 100]);
+  expect(calcZoomState(options)).toMatchObject({atXMin: false, atXMax: true});
+});
+
+test('calcSpanLimitState', () => {
+  const xScale = scaleLog().domain([1, 1000]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 10]).range([500, 0]);
+  expect(calcSpanLimitState({
+    xScale,
+    yScale,
+    minZoom: {ySpan: 10},
+    maxZoom: {xSpan: 3, units: 'transformed'},
+  })).toEqual({x: 'maxZoom', y: 'minZoom'});
+  expect(calcSpanLimitState({
+    xScale,
+    yScale,
+    minZoom: {ySpan: 5},
+    maxZoom: {xSpan: 998},
+  })).toEqual({x: 'maxZoom', y: undefined});
+  expect(calcSpanLimitState({xScale, yScale, minZoom: undefined, maxZoom: {xSpan: 2000}})).toEqual({x: undefined, y: undefined});
+});
+
+test('classifyWheel', () => {
+  expect(classifyWheel({deltaY: 3, deltaMode: 1})).toBe('wheel');
+  expect(classifyWheel({deltaY: 100, deltaMode: 0})).toBe('wheel');
+  expect(classifyWheel({deltaY: 100, deltaMode: 0, ctrlKey: true})).toBe('wheel');
+  expect(classifyWheel({deltaY: 4, deltaMode: 0})).toBe('trackpad');
+  expect(classifyWheel({deltaX: 12, deltaY: 0, deltaMode: 0})).toBe('trackpad');
+  expect(classifyWheel({deltaY: -1.5, deltaMode: 0, ctrlKey: true})).toBe('pinch');
+});
 
 describe('updateScales', () => {
   test('stationary 60', () => {
@@ -139,3 +248,101 @@ describe('updateScales', () => {
     expect(xScale(60)).toBe(600);
   });
 });
+
+describe.each([
+  {orientation: 'range with margins', domain: [0, 100], range: [50, 1050]},
+  {orientation: 'flipped range (d3 y axis)', domain: [0, 100], range: [1050, 50]},
+  {orientation: 'descending domain', domain: [100, 0], range: [50, 1050]},
+  {orientation: 'descending domain, flipped range', domain: [100, 0], range: [1050, 50]},
+])('$orientation', ({domain, range}) => {
+  const createScales = () => ({
+    xScale: scaleLinear().domain(domain).range(range),
+    yScale: scaleLinear().domain(domain).range(range),
+  });
+  const limits = {lockXAxis: false, lockYAxis: false, minZoom: undefined, maxZoom: undefined};
+  const shift = (offset: number): [number, number] => [domain[0] + offset, domain[1] + offset];
+
+  test('zoom keeps the value under the center in place', () => {
+    const {xScale, yScale} = createScales();
+    const xValue = xScale.invert(300);
+    const yValue = yScale.invert(800);
+    zoom({xScale, yScale, center: {x: 300, y: 800}, zoomRatio: 1.5, constraint: undefined, ...limits});
+    expect(xScale.invert(300)).toBeCloseTo(xValue);
+    expect(yScale.invert(800)).toBeCloseTo(yValue);
+    const [x0, x1] = xScale.domain();
+    expect(x1 - x0).toBeCloseTo((domain[1] - domain[0]) / 2);
+  });
+
+  test('constrain moves the domain back in, keeping its order', () => {
+    const {xScale, yScale} = createScales();
+    const constraint = {xMin: 0, xMax: 100, yMin: 0, yMax: 100};
+    applyDomain({xScale, yScale, domain: [shift(10), shift(-10)], constraint, ...limits});
+    expect(xScale.domain().map((value) => Math.round(value))).toEqual(domain);
+    expect(yScale.domain().map((value) => Math.round(value))).toEqual(domain);
+  });
+
+  test('constrain clamps a zoom out to the constraint', () => {
+    const {xScale, yScale} = createScales();
+    const constraint = {xMin: 0, xMax: 100, yMin: 0, yMax: 100};
+    zoom({xScale, yScale, center: {x: 300, y: 300}, zoomRatio: 0.5, constraint, ...limits});
+    expect(xScale.domain().map((value) => Math.round(value))).toEqual(domain);
+    expect(yScale.domain().map((value) => Math.round(value))).toEqual(domain);
+  });
+
+  test('span limits keep the order of the domain', () => {
+    const {xScale, yScale} = createScales();
+    const center = (domain[0] + domain[1]) / 2;
+    const direction = Math.sign(domain[1] - domain[0]);
+    const narrow: [number, number] = [center - (direction * 10), center + (direction * 10)];
+    applyDomain({xScale, yScale, domain: [narrow, narrow], constraint: undefined, ...limits, minZoom: {xSpan: 50}});
+    expect(xScale.domain()).toEqual([center - (direction * 25), center + (direction * 25)]);
+  });
+});
+
+test('setScaleDomain and toScaleDomain keep the types of the scales', () => {
+  const xScale = scaleUtc().range([0, 100]);
+  const yScale = scaleLinear().range([100, 0]);
+  setScaleDomain(xScale, [0, 1000]);
+  setScaleDomain(yScale, [new Date(0), new Date(10)]);
+  expect(xScale.domain()).toEqual([new Date(0), new Date(1000)]);
+  expect(yScale.domain()).toEqual([0, 10]);
+  expect(toScaleDomain({xScale, yScale}, [[0, new Date(500)], [new Date(1), 2]])).toEqual([
+    [new Date(0), new Date(500)],
+    [1, 2],
+  ]);
+});
+
+test('resolveZoomAnchor gives the range position of the anchor, whatever the orientation', () => {
+  const scale = scaleLinear().domain([100, 0]).range([50, 550]);
+  expect(resolveZoomAnchor(undefined, scale, 300)).toBeUndefined();
+  expect(resolveZoomAnchor('cursor', scale, 300)).toBeUndefined();
+  expect(resolveZoomAnchor('center', scale, 100)).toBe(300);
+  expect(resolveZoomAnchor('min', scale, 100)).toBe(550);
+  expect(resolveZoomAnchor('max', scale, 100)).toBe(50);
+  expect(resolveZoomAnchor({value: 20}, scale, 100)).toBe(450);
+  expect(resolveZoomAnchor(({position}) => position + 1, scale, 100)).toBe(101);
+  const timeScale = scaleUtc().domain([new Date(0), new Date(1000)]).range([0, 100]);
+  expect(resolveZoomAnchor({value: new Date(500)}, timeScale, 0)).toBe(50);
+});
+
+describe('scale-aware span limits', () => {
+  test('getScaleTransform maps values to where the scale is linear', () => {
+    const log = getScaleTransform(scaleLog());
+    expect(log.forward(1000)).toBeCloseTo(3);
+    expect(log.inverse(-2)).toBeCloseTo(0.01);
+    expect(getScaleTransform(scalePow().exponent(2)).forward(-3)).toBeCloseTo(-9);
+    const symlog = getScaleTransform(scaleSymlog().constant(2));
+    expect(symlog.inverse(symlog.forward(-5))).toBeCloseTo(-5);
+    expect(getScaleTransform(scaleLinear()).forward(5)).toBe(5);
+  });
+
+  test('measures spans in decades on log scales', () => {
+    const log = getScaleTransform(scaleLog());
+    const [d0, d1] = decreaseToSpan(6, [1, 1e8], log).map(Number);
+    expect(d0).toBeCloseTo(10);
+    expect(d1 / 1e7).toBeCloseTo(1);
+    const [i0, i1] = increaseToSpan(0.5, [10, 10], log).map(Number);
+    expect(Math.log10(i0)).toBeCloseTo(0.75);
+    expect(Math.log10(i1)).toBeCloseTo(1.25);
+  });
+});
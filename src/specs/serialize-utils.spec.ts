@@ -0,0 +1,75 @@
+import { scaleLinear, scaleTime } from 'd3-scale';
+import { parseView, serializeView, viewFromJSON, viewToJSON } from '~/index';
+
+
+describe('serializeView', () => {
+  test('round-trips a linear view', () => {
+    const xScale = scaleLinear().domain([0, 100.5]);
+    const yScale = scaleLinear().domain([-5e-7, 5]);
+    const value = serializeView({xScale, yScale});
+    expect(value).toBe('0_100.5_-5e-7_5');
+    expect(encodeURIComponent(value)).toBe(value);
+    expect(parseView(value)).toEqual([[0, 100.5], [-5e-7, 5]]);
+  });
+
+  test('encodes time values compactly', () => {
+    const start = new Date('2024-01-01T00:00:00Z');
+    const end = new Date('2024-02-01T00:00:00Z');
+    const xScale = scaleTime().domain([start, end]);
+    const yScale = scaleLinear().domain([0, 1]);
+    const value = serializeView({xScale, yScale});
+    expect(value.startsWith('t')).toBe(true);
+    expect(value.length).toBeLessThan(String(start.getTime()).length * 2 + 4);
+    expect(parseView(value)).toEqual([[start.getTime(), end.getTime()], [0, 1]]);
+  });
+
+  test('checks the version tag', () => {
+    const xScale = scaleLinear().domain([0, 10]);
+    const yScale = scaleLinear().domain([0, 20]);
+    const value = serializeView({xScale, yScale}, {version: 'v2'});
+    expect(value).toBe('v2_0_10_0_20');
+    expect(parseView(value, {version: 'v2'})).toEqual([[0, 10], [0, 20]]);
+    expect(parseView(value, {version: 'v3'})).toBeUndefined();
+    expect(parseView(value)).toBeUndefined();
+    expect(parseView('0_10_0_20', {version: 'v2'})).toBeUndefined();
+  });
+
+  test('rejects malformed views', () => {
+    expect(parseView('')).toBeUndefined();
+    expect(parseView('0_10_0')).toBeUndefined();
+    expect(parseView('0__0_10')).toBeUndefined();
+    expect(parseView('0_abc_0_10')).toBeUndefined();
+    expect(parseView('0_Infinity_0_10')).toBeUndefined();
+    expect(parseView('5_5_0_10')).toBeUndefined();
+  });
+});
+
+describe('viewToJSON', () => {
+  test('round-trips through JSON, with dates as ISO strings', () => {
+    const xScale = scaleTime().domain([new Date('2024-01-01T00:00:00Z'), new Date('2024-01-02T00:00:00Z')]);
+    const yScale = scaleLinear().domain([0, 1]);
+    const json = viewToJSON({xScale, yScale}, {version: '1'});
+    expect(json).toEqual({
+      version: '1',
+      domain: [['2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z'], [0, 1]],
+    });
+    const parsed: unknown = JSON.parse(JSON.stringify(json));
+    expect(viewFromJSON(parsed, {version: '1'})).toEqual([
+      [Date.parse('2024-01-01T00:00:00Z'), Date.parse('2024-01-02T00:00:00Z')],
+      [0, 1],
+    ]);
+    expect(viewFromJSON(parsed)).toBeUndefined();
+  });
+
+  test('rejects malformed JSON', () => {
+    expect(viewFromJSON(null)).toBeUndefined();
+    expect(viewFromJSON({domain: [[0, 1]]})).toBeUndefined();
+    expect(viewFromJSON({domain: [[0, 1], [0, 'not a date']]})).toBeUndefined();
+    expect(viewFromJSON({domain: [[0, 1], ['5', '10']]})).toBeUndefined();
+    expect(viewFromJSON({domain: [['2024-01-01', '2024-01-02T12:00+01:00'], [0, 1]]})).toEqual([
+      [Date.parse('2024-01-01'), Date.parse('2024-01-02T12:00+01:00')],
+      [0, 1],
+    ]);
+    expect(viewFromJSON({domain: [[0, 1], [0, 2]]})).toEqual([[0, 1], [0, 2]]);
+  });
+});
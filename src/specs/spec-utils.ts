@@ -0,0 +1,82 @@
+import { scaleLinear } from 'd3-scale';
+import { act, createElement } from 'react';
+import { createRoot } from 'react-dom/client';
+import { PanZoomController, type IPanZoomOptions } from '~/index';
+
+
+/**
+ * Create a controller for a 1000×1000px view of [0, 100] on both axes (with the y range flipped, like a chart),
+ * unless the options are overridden.
+ * Frames only run on `flushFrames` or `tick`, and the clock only moves on `tick`.
+ */
+export function createController <TX extends number | Date = number, TY extends number | Date = TX> (
+  overrides: Partial<IPanZoomOptions<TX, TY>> = {},
+) {
+  const frames: (() => void)[] = [];
+  const clock = {time: 0};
+  const options = {
+    xScale: scaleLinear().domain([0, 100]).range([0, 1000]),
+    yScale: scaleLinear().domain([0, 100]).range([1000, 0]),
+    requestFrame: (callback: () => void) => frames.push(callback),
+    cancelFrame: () => {
+      frames.length = 0;
+    },
+    now: () => clock.time,
+    reducedMotion: false,
+    ...overrides,
+  } as IPanZoomOptions<TX, TY>;
+  const controller = new PanZoomController(options);
+  const flushFrames = () => {
+    for (const frame of frames.splice(0)) frame();
+  };
+  /** Advance the clock and run the frame that was scheduled. */
+  const tick = (ms: number) => {
+    clock.time += ms;
+    flushFrames();
+  };
+  /** Drag the view by `dx` pixels with a single pointer. */
+  const drag = (dx: number) => {
+    controller.pointerDown(1, {x: 500, y: 500});
+    controller.pointerMove(1, {x: 500 + dx, y: 500});
+    controller.pointerUp(1);
+  };
+  return {xScale: options.xScale, yScale: options.yScale, controller, options, flushFrames, tick, drag};
+}
+
+export function expectDomain (scale: {domain: () => (number | Date)[]}, expected: [number, number]) {
+  const [d0, d1] = scale.domain().map(Number);
+  expect(d0).toBeCloseTo(expected[0]);
+  expect(d1).toBeCloseTo(expected[1]);
+}
+
+export function expectAxisDomain (controller: PanZoomController<number | Date>, axis: 0 | 1, expected: [number, number]) {
+  const [d0, d1] = controller.getDomain()[axis].map(Number);
+  expect(d0).toBeCloseTo(expected[0]);
+  expect(d1).toBeCloseTo(expected[1]);
+}
+
+/**
+ * Render a hook in a component, in a jsdom environment. `rerender` renders it again with new props.
+ * The updates are wrapped in `act`, so that effects have run when they return.
+ */
+export function renderHook <TProps, TResult> (useHook: (props: TProps) => TResult, initialProps: NoInfer<TProps>) {
+  (globalThis as {IS_REACT_ACT_ENVIRONMENT?: boolean}).IS_REACT_ACT_ENVIRONMENT = true;
+  const result = {} as {current: TResult};
+  const Component = ({props}: {props: TProps}) => {
+    result.current = useHook(props);
+    return null;
+  };
+  const root = createRoot(document.createElement('div'));
+  const rerender = (props: TProps) => {
+    act(() => {
+      root.render(createElement(Component, {props}));
+    });
+  };
+  const unmount = () => {
+    act(() => {
+      root.unmount();
+    });
+  };
+  rerender(initialProps);
+  return {result, rerender, unmount};
+}
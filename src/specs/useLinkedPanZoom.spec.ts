@@ -0,0 +1,77 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act, useState } from 'react';
+import { PanZoomGroup, useLinkedPanZoom, usePanZoom, type IDomain, type ISyncMode } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+/** Render a chart of [0, 100] on both axes, linked to the group with the mode passed to `rerender`. */
+function renderChart (group: PanZoomGroup, {controlled = false, onChange = jest.fn()} = {}) {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+  return renderHook((mode: ISyncMode | undefined) => {
+    // In controlled mode, the proposed domains are passed back.
+    const [domain, setDomain] = useState<IDomain>([[0, 100], [0, 100]]);
+    const panZoom = usePanZoom({
+      xScale,
+      yScale,
+      reducedMotion: true,
+      onChange: (nextDomain) => {
+        onChange(nextDomain);
+        setDomain(nextDomain);
+      },
+      ...controlled ? {domain} : {},
+    });
+    useLinkedPanZoom(group, panZoom, {mode});
+    return panZoom;
+  }, undefined);
+}
+
+
+describe('useLinkedPanZoom', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('links the charts while they are mounted', () => {
+    const group = new PanZoomGroup({mode: 'x'});
+    const a = renderChart(group);
+    const onChange = jest.fn();
+    const b = renderChart(group, {onChange});
+    act(() => {
+      a.result.current.panBy({dx: 10}, {units: 'domain'});
+    });
+    expectDomain(b.result.current.controller.getScales().xScale, [10, 110]);
+    expectDomain(b.result.current.controller.getScales().yScale, [0, 100]);
+    b.rerender('xy');
+    act(() => {
+      a.result.current.panBy({dy: 10}, {units: 'domain'});
+    });
+    expectDomain(b.result.current.controller.getScales().yScale, [10, 110]);
+    b.unmount();
+    onChange.mockClear();
+    act(() => {
+      a.result.current.panBy({dx: 10}, {units: 'domain'});
+    });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('links controlled charts', () => {
+    const group = new PanZoomGroup({mode: 'x'});
+    const a = renderChart(group, {controlled: true});
+    const b = renderChart(group, {controlled: true});
+    act(() => {
+      a.result.current.panBy({dx: 10}, {units: 'domain'});
+    });
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expectDomain(a.result.current.controller.getScales().xScale, [10, 110]);
+    expectDomain(b.result.current.controller.getScales().xScale, [10, 110]);
+    expectDomain(b.result.current.controller.getScales().yScale, [0, 100]);
+  });
+});
@@ -0,0 +1,79 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act, useState } from 'react';
+import { useLiveEdge, usePanZoom, type IDomain } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+/** Render a view of [0, 100] that follows the given edge. */
+function renderLiveEdge ({controlled = false} = {}) {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+  return renderHook((edge: number | undefined) => {
+    // In controlled mode, the proposed domains are passed back.
+    const [domain, setDomain] = useState<IDomain>([[0, 100], [0, 100]]);
+    const panZoom = usePanZoom({
+      xScale,
+      yScale,
+      reducedMotion: true,
+      ...controlled ? {domain, onChange: setDomain} : {},
+    });
+    return {panZoom, liveEdge: useLiveEdge(panZoom, {edge})};
+  }, undefined);
+}
+
+/** Run the frames that notify the subscribers. */
+function flushFrames () {
+  act(() => {
+    jest.advanceTimersByTime(100);
+  });
+}
+
+
+describe('useLiveEdge', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('scrolls with the edge, and updates isFollowing', () => {
+    const {result, rerender} = renderLiveEdge();
+    const {xScale} = result.current.panZoom.controller.getScales();
+    rerender(120);
+    expectDomain(xScale, [20, 120]);
+    expect(result.current.liveEdge.isFollowing).toBe(true);
+    act(() => {
+      result.current.panZoom.setDomain([[0, 100], [0, 100]]);
+    });
+    flushFrames();
+    expect(result.current.liveEdge.isFollowing).toBe(false);
+    rerender(130);
+    expectDomain(xScale, [0, 100]);
+    act(() => {
+      result.current.liveEdge.follow();
+    });
+    flushFrames();
+    expectDomain(xScale, [30, 130]);
+    expect(result.current.liveEdge.isFollowing).toBe(true);
+  });
+
+  test('scrolls with the edge in controlled mode', () => {
+    const {result, rerender} = renderLiveEdge({controlled: true});
+    const {xScale} = result.current.panZoom.controller.getScales();
+    rerender(120);
+    flushFrames();
+    expectDomain(xScale, [20, 120]);
+    rerender(130);
+    flushFrames();
+    expectDomain(xScale, [30, 130]);
+    act(() => {
+      result.current.panZoom.setDomain([[0, 100], [0, 100]]);
+    });
+    flushFrames();
+    expectDomain(xScale, [0, 100]);
+    expect(result.current.liveEdge.isFollowing).toBe(false);
+  });
+});
@@ -0,0 +1,48 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act } from 'react';
+import { usePanZoom, type IDomain } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+describe('usePanZoom', () => {
+  test('shows the controlled domain after rendering', () => {
+    const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+    const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+    let isRendering = false;
+    const renderedDuring: boolean[] = [];
+    const {result, rerender} = renderHook((domain: IDomain) => {
+      isRendering = true;
+      const panZoom = usePanZoom({xScale, yScale, domain, onChange: () => undefined});
+      isRendering = false;
+      return panZoom;
+    }, [[0, 100], [0, 100]]);
+    const {controller} = result.current;
+    const {xScale: xScaleCopy} = controller.getScales();
+    controller.onDomainChange(() => {
+      renderedDuring.push(isRendering);
+    });
+    rerender([[0, 100], [0, 100]]);
+    rerender([[10, 60], [0, 100]]);
+    expect(renderedDuring).toEqual([false]);
+    expect(controller.getScales().xScale).toBe(xScaleCopy);
+    expectDomain(xScaleCopy, [10, 60]);
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('calls onUpdate when a new controlled domain is shown', () => {
+    jest.useFakeTimers();
+    const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+    const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+    const onUpdate = jest.fn();
+    const {rerender} = renderHook((domain: IDomain) => (
+      usePanZoom({xScale, yScale, domain, onChange: () => undefined, onUpdate})
+    ), [[0, 100], [0, 100]]);
+    rerender([[10, 60], [0, 100]]);
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,103 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { usePanZoomElement, type IPanZoomElementOptions } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+/** jsdom has no `PointerEvent`, so pointer events are mouse events with a `pointerId`. */
+function pointerEvent (type: string, pointerId: number, clientX = 0, clientY = 0) {
+  const event = new MouseEvent(type, {bubbles: true, cancelable: true, button: 0, clientX, clientY});
+  return Object.assign(event, {pointerId, pointerType: 'touch'});
+}
+
+/** Render the hook on a `div`, with pointer capture (which jsdom doesn't have). */
+function renderElement (options: Partial<IPanZoomElementOptions> = {}) {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+  const element = document.createElement('div');
+  const capturedPointers = new Set<number>();
+  Object.assign(element, {
+    setPointerCapture: jest.fn((pointerId: number) => capturedPointers.add(pointerId)),
+    releasePointerCapture: jest.fn((pointerId: number) => capturedPointers.delete(pointerId)),
+    hasPointerCapture: (pointerId: number) => capturedPointers.has(pointerId),
+  });
+  const addEventListener = jest.spyOn(element, 'addEventListener');
+  const removeEventListener = jest.spyOn(element, 'removeEventListener');
+  const hook = renderHook(
+    (props: Partial<IPanZoomElementOptions>) => usePanZoomElement(element, {xScale, yScale, ...props}),
+    options,
+  );
+  return {xScale, yScale, element, capturedPointers, addEventListener, removeEventListener, ...hook};
+}
+
+
+describe('usePanZoomElement', () => {
+  test('pans with captured pointers', () => {
+    const {xScale, element, capturedPointers} = renderElement();
+    element.dispatchEvent(pointerEvent('pointerdown', 1, 500, 500));
+    expect(capturedPointers).toEqual(new Set([1]));
+    expect(element.style.touchAction).toBe('none');
+    expect(element.style.cursor).toBe('grabbing');
+    element.dispatchEvent(pointerEvent('pointermove', 1, 400, 500));
+    expectDomain(xScale, [10, 110]);
+    element.dispatchEvent(pointerEvent('pointerup', 1, 400, 500));
+    expect(capturedPointers).toEqual(new Set());
+    expect(element.style.cursor).toBe('grab');
+  });
+
+  test('abandons cancelled pointers', () => {
+    const {xScale, element, result} = renderElement({doubleTap: {duration: 0}});
+    element.dispatchEvent(pointerEvent('pointerdown', 1, 500, 500));
+    element.dispatchEvent(pointerEvent('pointerup', 1, 500, 500));
+    element.dispatchEvent(pointerEvent('pointerdown', 2, 500, 500));
+    element.dispatchEvent(pointerEvent('pointercancel', 2, 500, 500));
+    // The capture is lost after the cancel, which doesn't end the pointer again.
+    element.dispatchEvent(pointerEvent('lostpointercapture', 2, 500, 500));
+    expect(result.current.gesture.inProgress).toBe(false);
+    expect(element.style.cursor).toBe('grab');
+    // A release would have zoomed in on the double tap.
+    expectDomain(xScale, [0, 100]);
+  });
+
+  test('cancels wheel events, which need a non-passive listener', () => {
+    const {xScale, element, addEventListener} = renderElement();
+    expect(addEventListener).toHaveBeenCalledWith('wheel', expect.any(Function), {passive: false});
+    expect(addEventListener).toHaveBeenCalledWith('touchstart', expect.any(Function), {passive: false});
+    const event = new WheelEvent('wheel', {cancelable: true, clientX: 500, clientY: 500, deltaY: -100});
+    element.dispatchEvent(event);
+    expect(event.defaultPrevented).toBe(true);
+    expect(xScale.domain()[1] - xScale.domain()[0]).toBeLessThan(100);
+  });
+
+  test('makes the element focusable while the keyboard is on', () => {
+    const {xScale, element, rerender} = renderElement();
+    expect(element.hasAttribute('tabindex')).toBe(false);
+    rerender({keyboard: {}});
+    expect(element.getAttribute('tabindex')).toBe('0');
+    element.dispatchEvent(new KeyboardEvent('keydown', {key: 'ArrowRight', cancelable: true}));
+    expect(xScale.domain()[0]).toBeGreaterThan(0);
+    rerender({});
+    expect(element.hasAttribute('tabindex')).toBe(false);
+    // A tabindex of the element is left alone.
+    element.setAttribute('tabindex', '-1');
+    rerender({keyboard: {}});
+    rerender({});
+    expect(element.getAttribute('tabindex')).toBe('-1');
+  });
+
+  test('removes its listeners and styles on unmount', () => {
+    const {xScale, element, capturedPointers, addEventListener, removeEventListener, unmount} = renderElement();
+    element.dispatchEvent(pointerEvent('pointerdown', 1, 500, 500));
+    element.dispatchEvent(pointerEvent('pointermove', 1, 400, 500));
+    unmount();
+    expect(removeEventListener.mock.calls.map(([type, listener]) => [type, listener])).toEqual(
+      addEventListener.mock.calls.map(([type, listener]) => [type, listener]),
+    );
+    expect(element.style.touchAction).not.toBe('none');
+    expect(element.style.cursor).toBe('');
+    element.dispatchEvent(pointerEvent('pointermove', 1, 300, 500));
+    element.dispatchEvent(pointerEvent('pointerup', 1, 300, 500));
+    expectDomain(xScale, [10, 110]);
+    expect(capturedPointers).toEqual(new Set([1]));
+  });
+});
@@ -0,0 +1,77 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act, useState } from 'react';
+import { usePanZoom, useScrollbar, type IDomain } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+/** Render a scrollbar of 500px for the x axis of a view of [0, 100], constrained to [0, 1000]. */
+function renderScrollbar ({controlled = false} = {}) {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+  return renderHook(() => {
+    // In controlled mode, the proposed domains are passed back.
+    const [domain, setDomain] = useState<IDomain>([[0, 100], [0, 100]]);
+    const panZoom = usePanZoom({
+      xScale,
+      yScale,
+      constrain: {xMin: 0, xMax: 1000},
+      reducedMotion: true,
+      ...controlled ? {domain, onChange: setDomain} : {},
+    });
+    return {panZoom, scrollbar: useScrollbar(panZoom, {axis: 'x', length: 500})};
+  }, undefined);
+}
+
+/** Run the frames that notify the subscribers. */
+function flushFrames () {
+  act(() => {
+    jest.advanceTimersByTime(100);
+  });
+}
+
+
+describe('useScrollbar', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('updates the thumb when the view changes', () => {
+    const {result} = renderScrollbar();
+    expect(result.current.scrollbar.thumb).toEqual({start: 0, size: 50});
+    act(() => {
+      result.current.panZoom.setDomain([[450, 550], [0, 100]]);
+    });
+    flushFrames();
+    expect(result.current.scrollbar.thumb).toEqual({start: 225, size: 50});
+  });
+
+  test('pans by dragging the thumb', () => {
+    const {result} = renderScrollbar();
+    expect(result.current.scrollbar.hitTest(25)).toBe('thumb');
+    act(() => {
+      result.current.scrollbar.onPointerDown(1, 25);
+      result.current.scrollbar.onPointerMove(1, 75);
+      result.current.scrollbar.onPointerUp(1);
+    });
+    flushFrames();
+    expectDomain(result.current.panZoom.controller.getScales().xScale, [100, 200]);
+    expect(result.current.scrollbar.thumb).toEqual({start: 50, size: 50});
+  });
+
+  test('follows the domain in controlled mode', () => {
+    const {result} = renderScrollbar({controlled: true});
+    act(() => {
+      result.current.scrollbar.onPointerDown(1, 25);
+      result.current.scrollbar.onPointerMove(1, 75);
+      result.current.scrollbar.onPointerUp(1);
+    });
+    flushFrames();
+    expectDomain(result.current.panZoom.controller.getScales().xScale, [100, 200]);
+    expect(result.current.scrollbar.thumb).toEqual({start: 50, size: 50});
+  });
+});
@@ -0,0 +1,84 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act, useState } from 'react';
+import { usePanZoom, useViewHistory, type IDomain } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+/** Render the view history of a view of [0, 100]. */
+function renderViewHistory ({controlled = false} = {}) {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+  return renderHook(() => {
+    // In controlled mode, the proposed domains are passed back.
+    const [domain, setDomain] = useState<IDomain>([[0, 100], [0, 100]]);
+    const panZoom = usePanZoom({
+      xScale,
+      yScale,
+      reducedMotion: true,
+      ...controlled ? {domain, onChange: setDomain} : {},
+    });
+    return {panZoom, viewHistory: useViewHistory(panZoom)};
+  }, undefined);
+}
+
+/** Run the frames that notify the subscribers, and let the view settle. */
+function settle () {
+  act(() => {
+    jest.advanceTimersByTime(1000);
+  });
+}
+
+
+describe('useViewHistory', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('goes back and forward', () => {
+    const {result} = renderViewHistory();
+    const {xScale} = result.current.panZoom.controller.getScales();
+    expect(result.current.viewHistory).toMatchObject({canGoBack: false, canGoForward: false, length: 0});
+    act(() => {
+      result.current.panZoom.setDomain([[10, 110], [0, 100]]);
+    });
+    settle();
+    expect(result.current.viewHistory).toMatchObject({canGoBack: true, canGoForward: false, length: 2});
+    act(() => {
+      result.current.viewHistory.back();
+    });
+    settle();
+    expectDomain(xScale, [0, 100]);
+    expect(result.current.viewHistory).toMatchObject({canGoBack: false, canGoForward: true});
+    act(() => {
+      result.current.viewHistory.forward();
+    });
+    settle();
+    expectDomain(xScale, [10, 110]);
+    act(() => {
+      result.current.viewHistory.clear();
+    });
+    expect(result.current.viewHistory).toMatchObject({canGoBack: false, canGoForward: false, length: 0});
+  });
+
+  test('goes back in controlled mode', () => {
+    const {result} = renderViewHistory({controlled: true});
+    const {xScale} = result.current.panZoom.controller.getScales();
+    act(() => {
+      result.current.panZoom.setDomain([[10, 110], [0, 100]]);
+    });
+    settle();
+    expectDomain(xScale, [10, 110]);
+    expect(result.current.viewHistory).toMatchObject({canGoBack: true, canGoForward: false, length: 2});
+    act(() => {
+      result.current.viewHistory.back();
+    });
+    settle();
+    expectDomain(xScale, [0, 100]);
+    expect(result.current.viewHistory).toMatchObject({canGoBack: false, canGoForward: true});
+  });
+});
@@ -0,0 +1,84 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act, useState } from 'react';
+import { usePanZoom, useZoomControls, type IDomain } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+/** Render the zoom controls of a view of [0, 100], constrained to [0, 100], that can zoom in down to a span of 50. */
+function renderZoomControls ({controlled = false} = {}) {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+  return renderHook(() => {
+    // In controlled mode, the proposed domains are passed back.
+    const [domain, setDomain] = useState<IDomain>([[0, 100], [0, 100]]);
+    const panZoom = usePanZoom({
+      xScale,
+      yScale,
+      constrain: {xMin: 0, xMax: 100, yMin: 0, yMax: 100},
+      minZoom: {xSpan: 50, ySpan: 50},
+      reducedMotion: true,
+      ...controlled ? {domain, onChange: setDomain} : {},
+    });
+    return {panZoom, zoomControls: useZoomControls(panZoom)};
+  }, undefined);
+}
+
+/** Run the frames that notify the subscribers. */
+function flushFrames () {
+  act(() => {
+    jest.advanceTimersByTime(100);
+  });
+}
+
+
+describe('useZoomControls', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('updates the zoom state when zooming', () => {
+    const {result} = renderZoomControls();
+    expect(result.current.zoomControls).toMatchObject({canZoomIn: true, canZoomOut: false, atXMin: true, atXMax: true});
+    act(() => {
+      result.current.zoomControls.zoomIn();
+    });
+    flushFrames();
+    expectDomain(result.current.panZoom.controller.getScales().xScale, [25, 75]);
+    expect(result.current.zoomControls).toMatchObject({canZoomIn: false, canZoomOut: true, atXMin: false, atXMax: false});
+    act(() => {
+      result.current.zoomControls.zoomOut();
+    });
+    flushFrames();
+    expectDomain(result.current.panZoom.controller.getScales().xScale, [0, 100]);
+    expect(result.current.zoomControls).toMatchObject({canZoomIn: true, canZoomOut: false});
+  });
+
+  test('updates the zoom state in controlled mode', () => {
+    const {result} = renderZoomControls({controlled: true});
+    act(() => {
+      result.current.zoomControls.zoomIn();
+    });
+    flushFrames();
+    expectDomain(result.current.panZoom.controller.getScales().xScale, [25, 75]);
+    expect(result.current.zoomControls).toMatchObject({canZoomIn: false, canZoomOut: true, atXMin: false, atXMax: false});
+  });
+
+  test('updates the edges when the view is moved', () => {
+    const {result} = renderZoomControls();
+    act(() => {
+      result.current.panZoom.setDomain([[0, 50], [25, 75]]);
+    });
+    flushFrames();
+    expect(result.current.zoomControls).toMatchObject({canZoomIn: false, canZoomOut: true, atXMin: true, atXMax: false});
+    act(() => {
+      result.current.zoomControls.reset();
+    });
+    flushFrames();
+    expect(result.current.zoomControls).toMatchObject({canZoomIn: true, canZoomOut: false, atXMin: true, atXMax: true});
+  });
+});
@@ -0,0 +1,63 @@
+/** @jest-environment jsdom */
+import { scaleLinear } from 'd3-scale';
+import { act, useState } from 'react';
+import { usePanZoom, useZoomSlider, type IDomain } from '~/index';
+import { expectDomain, renderHook } from './spec-utils';
+
+
+/** Render the zoom slider of a view of [0, 100], between spans of 1 and 10000. */
+function renderZoomSlider ({controlled = false} = {}) {
+  const xScale = scaleLinear().domain([0, 100]).range([0, 1000]);
+  const yScale = scaleLinear().domain([0, 100]).range([1000, 0]);
+  return renderHook(() => {
+    // In controlled mode, the proposed domains are passed back.
+    const [domain, setDomain] = useState<IDomain>([[0, 100], [0, 100]]);
+    const panZoom = usePanZoom({
+      xScale,
+      yScale,
+      minZoom: {xSpan: 1, ySpan: 1},
+      maxZoom: {xSpan: 10000, ySpan: 10000},
+      reducedMotion: true,
+      ...controlled ? {domain, onChange: setDomain} : {},
+    });
+    return {panZoom, zoomSlider: useZoomSlider(panZoom)};
+  }, undefined);
+}
+
+/** Run the frames that notify the subscribers. */
+function flushFrames () {
+  act(() => {
+    jest.advanceTimersByTime(100);
+  });
+}
+
+
+describe('useZoomSlider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('updates the position when the view is zoomed', () => {
+    const {result} = renderZoomSlider();
+    expect(result.current.zoomSlider.position).toBeCloseTo(0.5);
+    act(() => {
+      result.current.panZoom.setDomain([[45, 55], [45, 55]]);
+    });
+    flushFrames();
+    expect(result.current.zoomSlider.position).toBeCloseTo(0.75);
+  });
+
+  test('zooms to the position in controlled mode', () => {
+    const {result} = renderZoomSlider({controlled: true});
+    act(() => {
+      result.current.zoomSlider.setPosition(0.75);
+    });
+    flushFrames();
+    expectDomain(result.current.panZoom.controller.getScales().xScale, [45, 55]);
+    expect(result.current.zoomSlider.position).toBeCloseTo(0.75);
+  });
+});
@@ -7,7 +7,7 @@ import { Axis } from 'react-d3-axis-ts';
 import useResizeObserver from 'use-resize-observer';
 import { useRev } from 'use-rev';
 
-import { normalizeWheelDelta, usePanZoom } from '~';
+import { createBandIndexScale, normalizeWheelDelta, usePanZoom } from '~';
 
 import csv from './etc/alphabet.csv';
 
@@ -20,6 +20,7 @@ const data = csvParse(csv, autoType) as IDatum[];
 const dataSorted = sort(data, d => -d.frequency);
 const dataMax = max(dataSorted, d => d.frequency)!;
 const dataExtent = dataSorted.map(d => d.letter);
+const dataByLetter = new Map(data.map(d => [d.letter, d]));
 
 
 export default {
@@ -65,33 +66,28 @@ export function ZoomableBarChart () {
     };
   }
 
-  const xBandScale = useMemo(() => {
-    const _xScale = scaleBand();
-    _xScale.domain(dataExtent);
-    _xScale.range([0, 1]);
-    _xScale.padding(0.1);
-    return _xScale;
-  }, []);
-
+  // A continuous scale over the indices of the letters, which can be panned and zoomed.
   const xScale = useMemo(() => {
-    const _xScale = scaleLinear();
-    _xScale.domain([0, 1]);
-    _xScale.range([marginLeft, 100 - marginRight]);
-    return _xScale;
+    const _xBandScale = scaleBand();
+    _xBandScale.domain(dataExtent);
+    _xBandScale.range([marginLeft, 100 - marginRight]);
+    _xBandScale.padding(0.1);
+    return createBandIndexScale(_xBandScale);
   }, []);
-  const xScaleRef = useRef(xScale); xScaleRef.current = xScale;
 
   const xBandScaleForAxis = useMemo(() => {
     const _xScale = scaleBand();
     _xScale.domain(dataExtent);
     _xScale.range([marginLeft, 100 - marginRight]);
-    _xScale.padding(0.1);
+    // With half of the inner padding outside, band i spans [i, i + 1] of the index scale, like the bars.
+    _xScale.paddingInner(0.1);
+    _xScale.paddingOuter(0.05);
     return _xScale;
   }, []);
   // sync the x axis scale
   xBandScaleForAxis.range([
     xScale(0),
-    xScale(1),
+    xScale(dataExtent.length),
   ]);
 
   const yScale = useMemo(() => {
@@ -122,12 +118,14 @@ export function ZoomableBarChart () {
     yScale,
     constrain: {
       xMin: 0,
-      xMax: 1,
+      xMax: dataExtent.length,
       yMin: -Infinity,
       yMax: Infinity,
     },
-    minZoom: {xSpan: 0.2},
+    minZoom: {xSpan: 5},
     lockYAxis: true,
+    // Show whole bars when the view comes to rest.
+    snap: ([xDomain, yDomain]) => [xScale.snapDomain(xDomain), yDomain],
     onUpdate: () => {
       bumpRev();
     },
@@ -262,18 +260,16 @@ export function ZoomableBarChart () {
             </g>
           </g>
           <g clipPath={`url(#${clipId})`}>
-            {data.map((d, i) => {
-              const bandX = xBandScale(d.letter);
-              if (bandX === undefined) return null;
-              const x1 = xScale(bandX);
-              const x2 = xScale(bandX + xBandScale.bandwidth());
+            {/* Only the bars in view are rendered. */}
+            {xScale.visible().categories.map((letter) => {
+              const d = dataByLetter.get(letter)!;
               return (
-                <rect key={i}
+                <rect key={letter}
                   fill='steelblue'
-                  x={x1}
+                  x={xScale.band(letter)}
                   y={yScale(d.frequency)}
                   height={yScale(0) - yScale(d.frequency)}
-                  width={x2 - x1}
+                  width={xScale.bandwidth()}
                 />
               );
             })}
@@ -284,12 +280,13 @@ export function ZoomableBarChart () {
         This chart uses <kbd>scaleBand</kbd> which is an ordinal scale. Ordinal scales can't directly be used with <kbd>usePanZoom</kbd> because they don't have the <kbd>.invert()</kbd> method. This uncovers a fundamental difference between <kbd>usePanZoom</kbd> and <kbd>d3-pan-zoom</kbd>. Whereas <kbd>d3-pan-zoom</kbd> animates a scale's <i>range</i>, <kbd>usePanZoom</kbd> animates a scale's <i>domain</i>.
       </p>
       <p>
-        In order to use a band scale with <kbd>usePanZoom</kbd>, this story uses a linear X scale for the chart, with a domain of 0 to 1. Then separately, the band scale is created with a range of 0 to 1. This separate scale is used when positioning elements, by doing <kbd>const xPixel = xScale(xBandScale(bandValue))</kbd>.
+        In order to use a band scale with <kbd>usePanZoom</kbd>, this story wraps it with <kbd>createBandIndexScale</kbd>, which makes a continuous scale over the indices of the letters (band <kbd>i</kbd> spans <kbd>[i, i + 1]</kbd>).
+        Its <kbd>band(letter)</kbd> and <kbd>bandwidth()</kbd> position the bars at the current zoom, <kbd>visible()</kbd> tells which bars are in view, and <kbd>snapDomain</kbd> (passed as the <kbd>snap</kbd> option) shows whole bars when the view comes to rest.
       </p>
       <p>
         For the X axis marks, this needs yet another scale, because it expects a scale with a range that has been scaled.
         This chart uses the <kbd>Axis</kbd> from the <a href='https://www.npmjs.com/package/react-d3-axis-ts' target='_blank'>react-d3-axis-ts</a> package, and passes it a second band scale (<kbd>xBandScaleForAxis</kbd>)
-        which must be synchronized with the main x scale like this: <kbd>xBandScaleForAxis.range([xScale(0), xScale(1)])</kbd>.
+        which must be synchronized with the main x scale like this: <kbd>xBandScaleForAxis.range([xScale(0), xScale(letters.length)])</kbd>.
       </p>
     </div>
   );
@@ -0,0 +1,87 @@
+import { scaleLinear } from 'd3-scale';
+import { useMemo, useState } from 'react';
+import { Axis } from 'react-d3-axis-ts';
+import { useRev } from 'use-rev';
+
+import { usePanZoomElement } from '~';
+
+
+export default {
+  title: 'usePanZoom',
+};
+
+const chartWidth = 600;
+const chartHeight = 400;
+
+
+export function Story_Element () {
+  const [chartElement, setChartElement] = useState<SVGSVGElement | null>(null);
+  const xScale = useMemo(() => scaleLinear().domain([0, 150]).range([0, chartWidth]), []);
+  const yScale = useMemo(() => scaleLinear().domain([0, 100]).range([chartHeight, 0]), []);
+
+  const [scaleRev, bumpRev] = useRev();
+  const {getZoomBox} = usePanZoomElement(chartElement, {
+    xScale,
+    yScale,
+    boxZoom: {},
+    boxZoomKey: 'shiftKey',
+    doubleTap: true,
+    keyboard: {},
+    onUpdate: () => {
+      bumpRev();
+    },
+  });
+  const zoomBox = getZoomBox();
+
+  return <>
+    <p>
+      This chart uses <kbd>usePanZoomElement</kbd>, which binds the pointer, wheel, touch and key events of the chart element, with none of the boilerplate of the other stories.
+      Drag with <kbd>Shift</kbd> held to zoom into a box, double click to zoom in, or focus the chart and use the arrow keys.
+    </p>
+    <svg
+      ref={setChartElement}
+      width={chartWidth}
+      height={chartHeight}
+      style={{
+        border: '1px solid #ddd',
+        overflow: 'hidden',
+        userSelect: 'none',
+      }}
+    >
+      <g transform={`translate(${chartWidth}, 0)`}>
+        <Axis
+          orient="left"
+          scale={yScale}
+          tickArguments={[10]}
+          color="#f99"
+          tickSizeInner={chartWidth - 40}
+          tickSizeOuter={chartWidth - 40}
+          scaleRev={scaleRev}
+        />
+      </g>
+      <g transform={`translate(0, ${chartHeight})`}>
+        <Axis
+          orient="top"
+          scale={xScale}
+          tickArguments={[10]}
+          color="#99f"
+          tickSizeInner={chartHeight - 40}
+          tickSizeOuter={chartHeight - 40}
+          scaleRev={scaleRev}
+        />
+      </g>
+      <circle fill="gold" r={20} cx={xScale(75)} cy={yScale(50)} />
+      {zoomBox ? (
+        <rect
+          x={zoomBox.range[0][0]}
+          y={zoomBox.range[1][0]}
+          width={zoomBox.range[0][1] - zoomBox.range[0][0]}
+          height={zoomBox.range[1][1] - zoomBox.range[1][0]}
+          fill="rgba(0, 0, 255, 0.1)"
+          stroke="blue"
+        />
+      ) : null}
+    </svg>
+  </>;
+}
+Story_Element.storyName = 'usePanZoomElement';
@@ -4,7 +4,7 @@ import { Axis } from 'react-d3-axis-ts';
 import useResizeObserver from 'use-resize-observer';
 import { useRev } from 'use-rev';
 
-import { normalizeWheelDelta, usePanZoom, type IBBox, type IScale } from '~';
+import { normalizeWheelDelta, usePanZoom, type IConstraint, type IScale } from '~';
 
 
 export default {
@@ -241,7 +241,7 @@ function Constraint ({
   stroke = '#111',
   strokeWidth = 1,
 }: {
-  domainBBbox: Partial<IBBox>;
+  domainBBbox: IConstraint<number | Date>;
   xScale: IScale;
   yScale: IScale;
   fill: string;